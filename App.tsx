@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import Intro from './components/Intro';
 import Generator from './components/Generator';
+import { setOfflineMode } from './services/imageProvider';
 
 // --- COMPONENT: RESTRICTED ACCESS TOAST ---
 interface ToastProps {
@@ -122,6 +123,7 @@ const App: React.FC = () => {
   const [passwordInput, setPasswordInput] = useState('');
   const [authError, setAuthError] = useState(false);
   const [isExitingLogin, setIsExitingLogin] = useState(false);
+  const [offlineDemo, setOfflineDemo] = useState(false);
   
   // Track authenticated user
   const [username, setUsername] = useState<string>('');
@@ -305,6 +307,7 @@ const App: React.FC = () => {
     if (passwordInput === 'genygen' || passwordInput === 'nsdadmin') {
       setAuthError(false);
       setUsername(passwordInput); // Store username
+      setOfflineMode(offlineDemo); // Route all models to the local mock provider
       setIsExitingLogin(true); // Trigger exit animation
       setTimeout(() => {
         setViewState('APP');
@@ -426,6 +429,19 @@ const App: React.FC = () => {
                 >
                   Authenticate
                 </button>
+
+                {/* Offline Demo Switch */}
+                <button
+                  type="button"
+                  onClick={() => setOfflineDemo(!offlineDemo)}
+                  className="w-full flex items-center justify-between px-1 text-[10px] font-mono uppercase tracking-widest text-slate-500 hover:text-slate-300 transition-colors"
+                  title="Use procedural placeholder images instead of the live API"
+                >
+                  <span>Offline Demo Mode</span>
+                  <span className={`relative w-8 h-4 rounded-full border transition-colors ${offlineDemo ? 'bg-amber-500/30 border-amber-500' : 'bg-slate-800 border-slate-700'}`}>
+                    <span className={`absolute top-0.5 w-2.5 h-2.5 rounded-full transition-all ${offlineDemo ? 'left-4 bg-amber-400' : 'left-0.5 bg-slate-500'}`}></span>
+                  </span>
+                </button>
               </form>
     
               <div className="mt-8 pt-6 border-t border-white/5 flex justify-between text-[10px] text-slate-500 font-mono uppercase">
@@ -9,12 +9,48 @@ import {
   GenerationOptions, 
   GeneratedImage,
   Preset,
+  PresetLut,
+  ColorLut,
   SelectionBox,
-  ImageAdjustments
+  EditRegion,
+  DetectedObject,
+  AdjustmentOperation,
+  ImageHistogram,
+  RedactMode,
+  OutpaintExtents,
+  ImageTransform,
+  CropHandle
 } from '../types';
-import { generateImage, editImage, getPromptEnhancements, validateCredentials } from '../services/geminiService';
-import { extendImage, applyImageAdjustments, applyOutline, cropImage, applyWatermark } from '../services/imageUtils';
+import { generateImages, editImage, describeImage, getPromptEnhancements, validateCredentials, ServiceRequestOptions, MAX_BATCH_COUNT, MAX_SEED, buildRegionInstruction, detectObjects } from '../services/geminiService';
+import { resolveImageProvider, isOfflineMode, setOfflineMode } from '../services/imageProvider';
+import { configureMockProvider, getMockConfig, MockFailure } from '../services/providers/mockProvider';
+import { RetryPolicy, DEFAULT_RETRY_POLICY } from '../services/retry';
+import {
+  toFluxError,
+  describeErrorCause,
+  AuthError,
+  QuotaError,
+  SafetyRefusalError,
+  NetworkError,
+  NoImageError,
+  UnsupportedCapabilityError,
+  CancelledError
+} from '../services/errors';
+import { MaskTool, MaskPoint, createMaskLayer, stampBrush, strokeBrush, fillLasso, clearMaskLayer, invertMaskLayer, isMaskLayerEmpty, maskLayerToPng, renderMaskOverlay } from '../services/maskLayer';
+import { extendImage, applyBlur, cropImage, applyWatermark, createSelectionMask, extentsForRatio, extentsToSelection, surroundingBoxes, getImageDimensions, parseAspectRatio, blendOutpaint, IDENTITY_TRANSFORM, transformImage, fitBoxToRatio, dragCropBox, getImageHistogram, parseCubeLut, hashBase64 } from '../services/imageUtils';
+import { ADJUSTMENT_PREVIEW_EDGE, createAdjustment, createLutAdjustment, hasActiveAdjustments, renderAdjustmentStack, getWorkingBase64, carryAdjustments } from '../services/adjustments';
+import { getImageEffect, listImageEffects } from '../services/imageEffect';
+import { loadLutLibrary, getLut, saveLut, deleteLut } from '../services/lutLibrary';
+import { GalleryEntry, GalleryEntryPatch, StorageUsage, listGallery, loadGalleryImage, saveToGallery, updateGalleryEntry, deleteFromGallery, getStorageUsage } from '../services/galleryStore';
+import { GalleryQuery, GallerySort, DEFAULT_GALLERY_QUERY, filterGallery, galleryFacets, normalizeTag } from '../services/galleryQuery';
+import { exportGalleryZip } from '../services/galleryExport';
+import { composeEditResult } from '../services/editComposite';
+import { OPERATION_LABELS, deriveImage, traceLineage } from '../services/lineage';
+import { EMPTY_HISTORY, HistoryTree, addHistoryNode, replaceHistoryImage, moveHistoryTo, getUndoTarget, getRedoTarget, getSiblingIds, getActiveBranch } from '../services/historyTree';
 import Loader from './Loader';
+import Histogram from './Histogram';
+import HistoryGraph from './HistoryGraph';
+import HistoryThumbnail from './HistoryThumbnail';
 
 interface GeneratorProps {
   initialId?: string;
@@ -38,6 +74,35 @@ const Toast: React.FC<{ message: string, visible: boolean }> = ({ message, visib
     </div>
 );
 
+// --- COMPONENT: GALLERY THUMBNAIL (object URL for the stored Blob, released on unmount) ---
+const GalleryThumbnail: React.FC<{ blob: Blob, className?: string }> = ({ blob, className = "" }) => {
+    const [url, setUrl] = useState<string | null>(null);
+    useEffect(() => {
+        const objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [blob]);
+    return url ? <img src={url} alt="" className={className} /> : null;
+};
+
+const MODEL_LABELS: Record<AIModel, string> = {
+    [AIModel.FLASH]: "NSD-CORE/70B (IRIS)",
+    [AIModel.IMAGEN]: "NSD-GEN/2.5",
+    [AIModel.PRO_IMAGE]: "NSD-QUANTUM/3.0 (ULTRA)",
+};
+
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
 // --- COMPONENT: TILT PANEL (3D Holographic Effect + Glare) ---
 interface TiltPanelProps {
     children: React.ReactNode;
@@ -142,6 +207,30 @@ const THEMATIC_ERRORS = [
 
 type ConsoleSize = 'small' | 'medium' | 'full';
 
+// What the error panel offers the user for each failure class
+type RecoveryAction = 'reauth' | 'retry' | 'revise' | 'switch_model';
+
+// Operation to re-run on retry. Outpaint can resume at the fill step with the already-extended canvas.
+type RetryTarget =
+    | { kind: 'generate' }
+    | { kind: 'edit' }
+    | { kind: 'outpaint'; resumeFrom?: OutpaintResume };
+
+// Step 1 output of an outpaint plus where the original sits in it, needed for seam blending
+interface OutpaintResume {
+    image: GeneratedImage;
+    placement: SelectionBox;
+}
+
+interface FailureState {
+    stage: string;
+    retry: RetryTarget;
+    detail: string;      // Real cause behind the themed message
+    recovery: RecoveryAction;
+    retryAt?: number;    // Earliest moment a quota retry makes sense
+    modelText?: string;  // Refusal text returned by the model
+}
+
 const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
   const [prompt, setPrompt] = useState('');
   const [editPrompt, setEditPrompt] = useState('');
@@ -166,11 +255,21 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
 
   // Image & History State
   const [generatedImage, setGeneratedImage] = useState<GeneratedImage | null>(null);
-  const [history, setHistory] = useState<GeneratedImage[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [historyTree, setHistoryTree] = useState<HistoryTree>(EMPTY_HISTORY);
+  const [showHistoryGraph, setShowHistoryGraph] = useState(false);
 
   // Gallery State
-  const [gallery, setGallery] = useState<GeneratedImage[]>([]);
+  const [gallery, setGallery] = useState<GalleryEntry[]>([]); // Archive metadata + thumbnails, read when the modal opens
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [isGalleryLoading, setIsGalleryLoading] = useState(false);
+  const [galleryQuery, setGalleryQuery] = useState<GalleryQuery>(DEFAULT_GALLERY_QUERY);
+  const [selectedGalleryId, setSelectedGalleryId] = useState<string | null>(null); // Entry shown in the detail panel
+  const [galleryTagDraft, setGalleryTagDraft] = useState('');
+  const [gallerySelection, setGallerySelection] = useState<string[]>([]); // Multi-select for bulk actions; selectedGalleryId is the range anchor
+  const [bulkTagDraft, setBulkTagDraft] = useState('');
+  const [confirmGalleryDelete, setConfirmGalleryDelete] = useState(false);
+  const [isGalleryBusy, setIsGalleryBusy] = useState(false);
+  const [batchResults, setBatchResults] = useState<GeneratedImage[] | null>(null);
   const [showGallery, setShowGallery] = useState(false);
 
   // Void Mode State
@@ -184,6 +283,14 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [processingMessage, setProcessingMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [failure, setFailure] = useState<FailureState | null>(null);
+  const [showFailureDetail, setShowFailureDetail] = useState(false);
+  const [clock, setClock] = useState(Date.now());
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
+
+  // In-flight request controllers (main operation + prompt suggestions)
+  const operationControllerRef = useRef<AbortController | null>(null);
+  const suggestionControllerRef = useRef<AbortController | null>(null);
   
   // Animation Trigger
   const [animateImage, setAnimateImage] = useState(false);
@@ -193,6 +300,21 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
   const [selectionBox, setSelectionBox] = useState<SelectionBox | null>(null);
   const [isDrawingBox, setIsDrawingBox] = useState(false);
   const [drawStart, setDrawStart] = useState<{x: number, y: number} | null>(null);
+  const [editRegions, setEditRegions] = useState<EditRegion[]>([]); // Numbered boxes, each with its own instruction
+  const [detectedObjects, setDetectedObjects] = useState<DetectedObject[]>([]);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const generatedImageIdRef = useRef<string | null>(null); // Lets async work detect that the image changed underneath it
+
+  // Mask Painting State (brush / eraser / lasso paint onto an offscreen layer at natural image size)
+  const [maskTool, setMaskTool] = useState<MaskTool>('box');
+  const [brushSize, setBrushSize] = useState(6); // Diameter, % of the image's short edge
+  const [brushHardness, setBrushHardness] = useState(70); // 0-100
+  const [hasPaintedMask, setHasPaintedMask] = useState(false);
+  const [lassoPoints, setLassoPoints] = useState<MaskPoint[]>([]); // Percentages, for the preview outline
+  const maskLayerRef = useRef<HTMLCanvasElement | null>(null);
+  const maskOverlayRef = useRef<HTMLCanvasElement>(null);
+  const isPaintingRef = useRef(false);
+  const lastPaintPointRef = useRef<MaskPoint | null>(null);
 
   // View Control State (Zoom/Pan)
   const [zoom, setZoom] = useState(1);
@@ -202,14 +324,35 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
 
   // Filter State
   const [showFilters, setShowFilters] = useState(false);
-  const [adjustments, setAdjustments] = useState<ImageAdjustments>({
-    brightness: 100,
-    contrast: 100,
-    saturation: 100,
-    blur: 0,
-    sepia: 0,
-    grayscale: 0
-  });
+
+  // Outpaint State
+  const [showOutpaint, setShowOutpaint] = useState(false);
+  const [outpaintMode, setOutpaintMode] = useState<'sides' | 'ratio'>('sides');
+  const [outpaintExtents, setOutpaintExtents] = useState<OutpaintExtents>({ left: 0.25, right: 0.25, top: 0.25, bottom: 0.25 });
+  const [outpaintRatio, setOutpaintRatio] = useState('16:9');
+  const [outpaintPrompt, setOutpaintPrompt] = useState('');
+
+  // Crop State (crop box is in percent of the transformed preview frame)
+  const [isCropMode, setIsCropMode] = useState(false);
+  const [cropTransform, setCropTransform] = useState<ImageTransform>(IDENTITY_TRANSFORM);
+  const [cropBox, setCropBox] = useState<SelectionBox>({ x: 0, y: 0, w: 100, h: 100 });
+  const [cropRatio, setCropRatio] = useState<string>('free'); // 'free' | 'original' | 'custom' | AspectRatio value
+  const [cropCustomRatio, setCropCustomRatio] = useState('21:9');
+  const [cropPreview, setCropPreview] = useState<{ base64: string; width: number; height: number } | null>(null);
+  const cropDragRef = useRef<{ handle: CropHandle; start: { x: number; y: number }; box: SelectionBox } | null>(null);
+  const cropImageRef = useRef<HTMLImageElement>(null);
+
+  // Redact State
+  const [showRedact, setShowRedact] = useState(false);
+  const [redactMode, setRedactMode] = useState<RedactMode>('blur');
+  const [redactIntensity, setRedactIntensity] = useState(12); // 0-20
+  const [redactFeather, setRedactFeather] = useState(0); // px
+
+  // Adjustment Stack State (draft of the current image's stack; previewed live, saved on Apply)
+  const [adjustmentStack, setAdjustmentStack] = useState<AdjustmentOperation[]>([]);
+  const [adjustmentPreview, setAdjustmentPreview] = useState<string | null>(null);
+  const [isRenderingAdjustments, setIsRenderingAdjustments] = useState(false);
+  const [histogram, setHistogram] = useState<ImageHistogram | null>(null);
 
   // Options State
   const [options, setOptions] = useState<GenerationOptions>({
@@ -219,12 +362,25 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
     model: AIModel.FLASH, 
   });
   const [customRatioInput, setCustomRatioInput] = useState("21:9");
+  const [imageDims, setImageDims] = useState<{ width: number; height: number } | null>(null); // Natural size of the displayed image
+
+  // Offline Demo State (mirrors the provider registry switch)
+  const [offlineMode, setOfflineModeState] = useState(isOfflineMode());
+
+  // Backend adapter serving the selected model
+  const activeProvider = resolveImageProvider(options.model);
 
   // Presets State
   const [presets, setPresets] = useState<Preset[]>([]);
   const [showPresetSave, setShowPresetSave] = useState(false);
   const [newPresetName, setNewPresetName] = useState('');
   const [presetDropdownOpen, setPresetDropdownOpen] = useState(false);
+  const [newPresetLut, setNewPresetLut] = useState<PresetLut | null>(null);
+  const [activeLook, setActiveLook] = useState<PresetLut | null>(null); // LUT from the loaded preset, applied to new generations
+
+  // LUT Library State
+  const [lutLibrary, setLutLibrary] = useState<ColorLut[]>([]);
+  const lutInputRef = useRef<HTMLInputElement>(null);
 
   // Download State
   const [showDownloadConfirm, setShowDownloadConfirm] = useState(false);
@@ -238,6 +394,7 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
   const consoleInputRef = useRef<HTMLInputElement>(null);
   
   const scrollRef = useRef<HTMLDivElement>(null);
+  const promptInputRef = useRef<HTMLInputElement>(null);
   const imageWrapperRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null); // Explicit ref for the image element
 
@@ -258,8 +415,8 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
     localStorage.setItem('umbrax_hourly_usage', JSON.stringify(hourlyUsage));
   }, [hourlyUsage]);
 
-  // Rate Limit Check Function
-  const checkRateLimit = () => {
+  // Rate Limit Check Function (cost = number of images the request will produce)
+  const checkRateLimit = (cost: number = 1) => {
     const now = Date.now();
     const oneHour = 60 * 60 * 1000;
     // Filter timestamps to only those within the last hour
@@ -268,22 +425,25 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
     // Auto-clean old records if state needs update
     if (valid.length !== hourlyUsage.length) setHourlyUsage(valid);
 
-    // Limit: 20 requests per hour
-    if (valid.length >= 20) {
-        const oldest = Math.min(...valid);
+    // Limit: 20 images per hour
+    if (valid.length + cost > 20) {
+        // Wait until enough of the oldest records expire to fit this request
+        const sorted = [...valid].sort((a, b) => a - b);
+        const oldest = sorted[Math.max(0, Math.min(sorted.length - 1, valid.length + cost - 21))];
         const resetTime = oldest + oneHour;
         const minsLeft = Math.ceil((resetTime - now) / 60000);
         
         setToastState({ visible: true, message: `HOURLY LIMIT REACHED. RESUME IN ${minsLeft} MIN.` });
         setTimeout(() => setToastState(s => ({ ...s, visible: false })), 5000);
-        logToConsole(`RATE LIMIT: QUOTA EXCEEDED (${valid.length}/20). RESET IN ${minsLeft}m`, 'warn');
+        logToConsole(`RATE LIMIT: QUOTA EXCEEDED (${valid.length}+${cost}/20). RESET IN ${minsLeft}m`, 'warn');
         return false;
     }
     return true;
   };
 
-  const incrementRateLimit = () => {
-      setHourlyUsage(prev => [...prev, Date.now()]);
+  const incrementRateLimit = (count: number = 1) => {
+      const now = Date.now();
+      setHourlyUsage(prev => [...prev, ...Array(count).fill(now)]);
   };
 
   // Update Input Intensity based on prompt length
@@ -306,6 +466,138 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
       }, 4000);
   };
 
+  const clearError = () => {
+      setError(null);
+      setFailure(null);
+      setShowFailureDetail(false);
+  };
+
+  // Maps a typed service failure to its themed message, console trace and recovery action
+  const handleFailure = (err: unknown, stage: string, retry: RetryTarget) => {
+      const fluxError = toFluxError(err);
+      // Cancellation is a user decision, not a failure: no error panel, no alarm
+      if (fluxError instanceof CancelledError) {
+          logToConsole(`${stage} CANCELLED. NO QUOTA CONSUMED.`, 'warn');
+          return;
+      }
+
+      console.error(err);
+      const detail = describeErrorCause(fluxError);
+      logToConsole(`${stage} ERROR [${fluxError.code}]: ${detail}`, 'error');
+
+      let next: FailureState = { stage, retry, detail, recovery: 'retry' };
+      if (fluxError instanceof AuthError) {
+          logToConsole("SECURITY PROTOCOL ACTIVATED: AUTHORIZATION REQUIRED", 'warn');
+          setError("SECURITY PROTOCOL ACTIVATED: AUTHORIZATION REQUIRED");
+          setShowAuthModal(true);
+          next.recovery = 'reauth';
+      } else if (fluxError instanceof QuotaError) {
+          const waitMs = fluxError.retryAfterMs ?? 30000;
+          setError("SYSTEM OVERLOAD (429): API RATE LIMIT EXCEEDED.");
+          next.retryAt = Date.now() + waitMs;
+          logToConsole(`UPSTREAM QUOTA: RETRY PERMITTED IN ${Math.ceil(waitMs / 1000)}s`, 'warn');
+      } else if (fluxError instanceof SafetyRefusalError) {
+          setError("CONTENT SENTINEL INTERVENTION: DIRECTIVE REFUSED");
+          next.recovery = 'revise';
+          next.modelText = fluxError.modelText;
+      } else if (fluxError instanceof NetworkError) {
+          setError("NEURAL LINK SEVERED: DATA PACKET LOSS");
+      } else if (fluxError instanceof NoImageError) {
+          setError("SYNTHESIS MATRIX UNSTABLE: NO VISUAL DATA RETURNED");
+      } else if (fluxError instanceof UnsupportedCapabilityError) {
+          setError("PROTOCOL UNAVAILABLE ON SELECTED MODEL");
+          next.recovery = 'switch_model';
+      } else {
+          // Fallback to thematic for unknown errors
+          setError(THEMATIC_ERRORS[Math.floor(Math.random() * THEMATIC_ERRORS.length)]);
+      }
+
+      setFailure(next);
+      setShowFailureDetail(false);
+      triggerCriticalError();
+  };
+
+  const handleRecovery = () => {
+      if (!failure) return;
+      switch (failure.recovery) {
+          case 'reauth':
+              setShowAuthModal(true);
+              break;
+          case 'retry': {
+              const target = failure.retry;
+              clearError();
+              if (target.kind === 'generate') handleGenerate();
+              else if (target.kind === 'edit') handleEdit();
+              else handleOutpaint(target.resumeFrom);
+              break;
+          }
+          case 'revise':
+              clearError();
+              if (failure.stage === 'GENERATION') promptInputRef.current?.focus({ preventScroll: true });
+              break;
+          case 'switch_model':
+              setOptions(prev => ({ ...prev, model: AIModel.FLASH }));
+              logToConsole("MODEL SWITCHED TO NSD-CORE/70B (IRIS)", 'info');
+              clearError();
+              break;
+      }
+  };
+
+  // Tick while a quota cooldown is pending so the retry countdown stays live
+  useEffect(() => {
+      if (!failure?.retryAt) return;
+      const interval = setInterval(() => setClock(Date.now()), 1000);
+      return () => clearInterval(interval);
+  }, [failure?.retryAt]);
+
+  // Starts a cancellable operation; the returned signal goes to every service call it makes
+  const beginOperation = (): AbortSignal => {
+      operationControllerRef.current?.abort();
+      const controller = new AbortController();
+      operationControllerRef.current = controller;
+      return controller.signal;
+  };
+
+  // Clears loading state only if the operation is still the current one (a cancel already did it otherwise)
+  const endOperation = (signal: AbortSignal) => {
+      if (operationControllerRef.current?.signal !== signal) return;
+      operationControllerRef.current = null;
+      setIsLoading(false);
+      setProcessingMessage("");
+  };
+
+  const cancelOperation = (): boolean => {
+      const controllers = [operationControllerRef.current, suggestionControllerRef.current].filter(Boolean) as AbortController[];
+      if (controllers.length === 0) return false;
+
+      controllers.forEach(c => c.abort());
+      operationControllerRef.current = null;
+      suggestionControllerRef.current = null;
+      setIsLoading(false);
+      setProcessingMessage("");
+      logToConsole("ABORT SIGNAL SENT. TERMINATING ACTIVE REQUEST...", 'warn');
+      return true;
+  };
+
+  // Hooks for service calls: retries, fallbacks and hidden model calls are echoed to the console stream.
+  // onExtraRequest tallies the hidden calls so the caller can charge them once its results are kept.
+  const buildServiceRequest = (stage: string, signal?: AbortSignal, onExtraRequest?: () => void): ServiceRequestOptions => ({
+      retryPolicy,
+      signal,
+      onAuxiliaryRequest: (purpose) => {
+          onExtraRequest?.();
+          logToConsole(`${stage}: EXTRA MODEL REQUEST (${purpose.toUpperCase()})`, 'system');
+      },
+      onFallback: (message, cause) => logToConsole(`${stage}: ${message.toUpperCase()} [${cause.code}]`, 'warn'),
+      onRetry: (info) => {
+          const reason = info.fromServerHint ? 'SERVER HINT' : 'BACKOFF';
+          logToConsole(
+              `${stage} ATTEMPT ${info.attempt}/${info.maxAttempts} FAILED [${info.error.code}]. RETRYING IN ${(info.delayMs / 1000).toFixed(1)}s (${reason})`,
+              'warn'
+          );
+      }
+  });
+
   // Helper to log to console
   const logToConsole = (message: string | object, type: LogEntry['type'] = 'info') => {
     let msgString = "";
@@ -356,7 +648,11 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
       logToConsole("UMBRAX KERNEL INITIALIZED...", 'system');
       logToConsole(`SESSION ID: ${initialId || defaultId}`, 'info');
       logToConsole(`USER: ${username || 'GUEST'}`, 'info');
-      logToConsole("CONNECTING TO NSD-CORE/70B API NODE...", 'warn');
+      if (isOfflineMode()) {
+          logToConsole("OFFLINE DEMO MODE: PROCEDURAL RENDERER ACTIVE. NO NETWORK CALLS.", 'warn');
+      } else {
+          logToConsole("CONNECTING TO NSD-CORE/70B API NODE...", 'warn');
+      }
       logToConsole("CONNECTION ESTABLISHED. READY FOR INPUT.", 'success');
   }, []);
 
@@ -382,6 +678,76 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                   logToConsole("SYS:  sys_status, top, ps, dmesg, kill, reboot, env, uname, coolant", 'info');
                   logToConsole("FILE: ls, cat, mkdir, rm, touch, chmod, du, decrypt", 'info');
                   logToConsole("MISC: matrix, weather, quote, neofetch, override, sudo, quantum", 'info');
+                  logToConsole("GEN:  describe, demo, retry, cancel", 'info');
+                  break;
+
+              // --- GENERATION ---
+              case 'cancel':
+              case 'abort':
+                  if (!cancelOperation()) logToConsole("cancel: no active request", 'error');
+                  break;
+              case 'retry': {
+                  const value = parseInt(args[2], 10);
+                  if (args[1] === 'attempts' && value >= 1 && value <= 10) {
+                      setRetryPolicy(prev => ({ ...prev, maxAttempts: value }));
+                      logToConsole(`RETRY POLICY: ${value} ATTEMPT(S) PER REQUEST`, 'success');
+                  } else if (args[1] === 'delay' && value >= 0) {
+                      setRetryPolicy(prev => ({ ...prev, baseDelayMs: value }));
+                      logToConsole(`RETRY POLICY: BASE BACKOFF ${value}ms`, 'success');
+                  } else {
+                      logToConsole(`RETRY POLICY: ${retryPolicy.maxAttempts} ATTEMPTS | BASE ${retryPolicy.baseDelayMs}ms | CAP ${retryPolicy.maxDelayMs}ms | JITTER ${Math.round(retryPolicy.jitter * 100)}%`, 'info');
+                      logToConsole("usage: retry attempts [1-10] | retry delay [ms]", 'info');
+                  }
+                  break;
+              }
+              case 'demo': {
+                  const sub = (args[1] || '').toLowerCase();
+                  if (sub === 'on' || sub === 'off') {
+                      setOfflineMode(sub === 'on');
+                      setOfflineModeState(sub === 'on');
+                      logToConsole(sub === 'on' ? "OFFLINE DEMO ENGAGED. NETWORK BACKENDS BYPASSED." : "OFFLINE DEMO DISENGAGED. LIVE BACKENDS RESTORED.", sub === 'on' ? 'warn' : 'success');
+                  } else if (sub === 'fail') {
+                      const failures: Record<string, MockFailure> = { '403': 'auth', '429': 'quota', 'safety': 'safety', 'none': 'none' };
+                      const failure = failures[(args[2] || '').toLowerCase()];
+                      if (!failure) { logToConsole("usage: demo fail [403|429|safety|none] [sticky]", 'error'); break; }
+                      configureMockProvider({ failure, stickyFailure: args[3] === 'sticky' });
+                      logToConsole(`DEMO FAULT ARMED: ${failure.toUpperCase()}${args[3] === 'sticky' ? ' (STICKY)' : ' (NEXT REQUEST)'}`, 'warn');
+                  } else if (sub === 'latency') {
+                      const ms = parseInt(args[2], 10);
+                      if (isNaN(ms) || ms < 0) { logToConsole("usage: demo latency [ms]", 'error'); break; }
+                      configureMockProvider({ latencyMs: ms });
+                      logToConsole(`DEMO LATENCY SET: ${ms}ms`, 'info');
+                  } else {
+                      const mock = getMockConfig();
+                      logToConsole(`OFFLINE DEMO: ${offlineMode ? 'ON' : 'OFF'}`, offlineMode ? 'warn' : 'info');
+                      logToConsole(`LATENCY: ${mock.latencyMs}ms | FAULT: ${mock.failure.toUpperCase()}${mock.stickyFailure ? ' (STICKY)' : ''}`, 'info');
+                      logToConsole("usage: demo [on|off] | demo fail [403|429|safety|none] [sticky] | demo latency [ms]", 'info');
+                  }
+                  break;
+              }
+              case 'describe':
+                  if (!generatedImage) { logToConsole("describe: no image loaded", 'error'); break; }
+                  if (!activeProvider.capabilities.describe) {
+                      logToConsole(`describe: ${activeProvider.label} cannot analyze images`, 'error');
+                      break;
+                  }
+                  if (isLoading) { logToConsole("describe: another request is running", 'error'); break; }
+                  logToConsole("ANALYZING VISUAL MATRIX...", 'info');
+                  {
+                      // Runs under the shared controller, so `cancel` and the Loader's Cancel button stop it
+                      const signal = beginOperation();
+                      setIsLoading(true);
+                      setProcessingMessage("ANALYZING VISUAL MATRIX...");
+                      describeImage(
+                          { ...generatedImage, base64: getWorkingBase64(generatedImage) },
+                          options,
+                          customApiKey,
+                          buildServiceRequest('DESCRIBE', signal)
+                      )
+                          .then(text => { if (!signal.aborted) logToConsole(text || "NO DESCRIPTION RETURNED", 'success'); })
+                          .catch(err => { if (!signal.aborted) logToConsole(`DESCRIBE ERROR: ${err?.message || err}`, 'error'); })
+                          .finally(() => endOperation(signal));
+                  }
                   break;
               
               // --- DEBUG / TEST ---
@@ -712,6 +1078,7 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
         logToConsole("USER PRESETS LOADED", 'success');
       } catch (e) { console.error("Failed to load presets", e); }
     }
+    setLutLibrary(loadLutLibrary());
   }, []);
 
   // Scroll to bottom when image generates
@@ -726,23 +1093,16 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
     setZoom(1);
     setPan({ x: 0, y: 0 });
     setSelectionBox(null);
+    setEditRegions([]);
+    setDetectedObjects([]);
+    generatedImageIdRef.current = generatedImage?.id ?? null;
+    maskLayerRef.current = null;
+    setHasPaintedMask(false);
+    setLassoPoints([]);
     setAnimateImage(true);
-    setAdjustments({
-        brightness: 100, contrast: 100, saturation: 100, blur: 0, sepia: 0, grayscale: 0
-    });
-    
-    // Handle Custom Ratio Crop Guide on new image
-    if (options.aspectRatio === AspectRatio.CUSTOM && options.customRatioValue) {
-        // Force a selection box in the center that matches ratio
-        setSelectionBox({ x: 10, y: 10, w: 80, h: 80 / options.customRatioValue }); 
-        setIsTargetMode(true);
-        // Reset Zoom/Pan for easier editing
-        setZoom(1);
-        setPan({x:0, y:0});
-    } else {
-        setSelectionBox(null);
-        setIsTargetMode(false);
-    }
+    setAdjustmentStack(generatedImage?.adjustments ?? []);
+    setAdjustmentPreview(null);
+    setIsTargetMode(false);
 
     const t = setTimeout(() => setAnimateImage(false), 1000);
     return () => clearTimeout(t);
@@ -756,7 +1116,8 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
 
     // Ensure we are adding non-passive listener to prevent scroll
     const handleWheelNative = (e: WheelEvent) => {
-        if (!isTargetMode) { 
+        // Box selection keeps the view fixed; paint tools can zoom in for detail work
+        if (!isTargetMode || maskTool !== 'box') { 
             e.preventDefault(); // Only prevent default if zooming
             const scaleAmount = -e.deltaY * 0.001;
             setZoom(prev => Math.min(Math.max(0.5, prev + scaleAmount), 5));
@@ -768,49 +1129,251 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
     return () => {
         element.removeEventListener('wheel', handleWheelNative);
     };
-  }, [generatedImage, isTargetMode]); 
+  }, [generatedImage, isTargetMode, maskTool]); 
 
   // History Management
+  // New generations start another root; everything else branches off the current node
   const updateHistory = (newImage: GeneratedImage, isNewGeneration: boolean = false) => {
-    if (isNewGeneration) {
-      setHistory([newImage]);
-      setHistoryIndex(0);
-    } else {
-      const newHistory = history.slice(0, historyIndex + 1);
-      newHistory.push(newImage);
-      setHistory(newHistory);
-      setHistoryIndex(newHistory.length - 1);
-    }
+    setHistoryTree(prev => addHistoryNode(prev, newImage, isNewGeneration ? null : prev.currentId));
     setGeneratedImage(newImage);
-    setGallery(prev => [newImage, ...prev]);
+    archiveImages([newImage]);
+  };
+
+  // Writes to the persistent archive in the background; a failed write only loses the archive copy
+  const archiveImages = async (images: GeneratedImage[]) => {
+      for (const image of images) {
+          try {
+              const evicted = await saveToGallery(image);
+              if (evicted.length > 0) {
+                  logToConsole(`ARCHIVE NEAR QUOTA: ${evicted.length} OLDEST UNPINNED ASSET(S) EVICTED`, 'warn');
+              }
+          } catch (err: any) {
+              logToConsole(`ARCHIVE WRITE FAILED: ${err?.message || err}`, 'error');
+          }
+      }
+  };
+
+  const refreshGallery = async () => {
+      setIsGalleryLoading(true);
+      try {
+          const [entries, usage] = await Promise.all([listGallery(), getStorageUsage()]);
+          setGallery(entries);
+          setStorageUsage(usage);
+      } catch (err: any) {
+          logToConsole(`ARCHIVE READ FAILED: ${err?.message || err}`, 'error');
+      } finally {
+          setIsGalleryLoading(false);
+      }
+  };
+
+  const openGallery = () => {
+      setShowGallery(true);
+      refreshGallery();
+  };
+
+  const openGalleryEntry = async (entry: GalleryEntry) => {
+      try {
+          const image = await loadGalleryImage(entry.id);
+          if (!image) {
+              logToConsole(`ARCHIVE ENTRY MISSING: ${entry.id}`, 'error');
+              return;
+          }
+          // Opened archive images join the tree as a root, so edits on them branch from there
+          setHistoryTree(prev => addHistoryNode(prev, image, null));
+          setGeneratedImage(image);
+          setShowGallery(false);
+      } catch (err: any) {
+          logToConsole(`ARCHIVE READ FAILED: ${err?.message || err}`, 'error');
+      }
+  };
+
+  const patchGalleryEntry = async (entry: GalleryEntry, patch: GalleryEntryPatch) => {
+      try {
+          await updateGalleryEntry(entry.id, patch);
+          setGallery(prev => prev.map(e => e.id === entry.id ? { ...e, ...patch } : e));
+      } catch (err: any) {
+          logToConsole(`ARCHIVE WRITE FAILED: ${err?.message || err}`, 'error');
+      }
+  };
+
+  const toggleGalleryPin = (entry: GalleryEntry) => patchGalleryEntry(entry, { pinned: !entry.pinned });
+
+  const addGalleryTag = (entry: GalleryEntry) => {
+      const tag = normalizeTag(galleryTagDraft);
+      setGalleryTagDraft('');
+      if (!tag || entry.tags.includes(tag)) return;
+      patchGalleryEntry(entry, { tags: [...entry.tags, tag] });
+  };
+
+  const removeGalleryTag = (entry: GalleryEntry, tag: string) =>
+      patchGalleryEntry(entry, { tags: entry.tags.filter(t => t !== tag) });
+
+  const updateGalleryQuery = (patch: Partial<GalleryQuery>) => setGalleryQuery(prev => ({ ...prev, ...patch }));
+
+  const toggleGalleryTagFilter = (tag: string) => setGalleryQuery(prev => ({
+      ...prev,
+      tags: prev.tags.includes(tag) ? prev.tags.filter(t => t !== tag) : [...prev.tags, tag]
+  }));
+
+  const reuseGalleryEntry = (entry: GalleryEntry) => {
+      const seed = entry.options?.seed;
+      setOptions(prev => ({ ...prev, seed, negativePrompt: entry.options?.negativePrompt }));
+      setPrompt(entry.prompt);
+      logToConsole(`PARAMETERS RESTORED FROM ARCHIVE${seed !== undefined ? ` (SEED ${seed})` : ''}`, 'info');
+  };
+
+  const visibleGallery = filterGallery(gallery, galleryQuery);
+  const galleryFacetValues = galleryFacets(gallery);
+  const selectedGalleryEntry = gallery.find(e => e.id === selectedGalleryId) ?? null;
+  const selectedLineage = selectedGalleryEntry ? traceLineage<GalleryEntry>(gallery, selectedGalleryEntry.id) : null;
+  const isGalleryFiltered = JSON.stringify({ ...galleryQuery, sort: DEFAULT_GALLERY_QUERY.sort }) !== JSON.stringify(DEFAULT_GALLERY_QUERY);
+  // Bulk actions only touch selected entries the current filters still show
+  const bulkTargets = visibleGallery.filter(e => gallerySelection.includes(e.id));
+
+  // Click selects one, Ctrl/Cmd-click toggles, Shift-click selects the range from the anchor (adding to it with Ctrl/Cmd)
+  const selectGalleryEntry = (entry: GalleryEntry, e: React.MouseEvent) => {
+      setConfirmGalleryDelete(false);
+      const additive = e.ctrlKey || e.metaKey;
+      const anchorIndex = visibleGallery.findIndex(item => item.id === selectedGalleryId);
+      if (e.shiftKey && anchorIndex !== -1) {
+          const index = visibleGallery.findIndex(item => item.id === entry.id);
+          const range = visibleGallery.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1).map(item => item.id);
+          setGallerySelection(prev => additive ? Array.from(new Set([...prev, ...range])) : range);
+          return;
+      }
+      setSelectedGalleryId(entry.id);
+      if (additive) {
+          setGallerySelection(prev => prev.includes(entry.id) ? prev.filter(id => id !== entry.id) : [...prev, entry.id]);
+      } else {
+          setGallerySelection([entry.id]);
+      }
+  };
+
+  const toggleGallerySelection = (entry: GalleryEntry) => {
+      setConfirmGalleryDelete(false);
+      setSelectedGalleryId(entry.id);
+      setGallerySelection(prev => prev.includes(entry.id) ? prev.filter(id => id !== entry.id) : [...prev, entry.id]);
+  };
+
+  const selectAllGallery = () => {
+      setConfirmGalleryDelete(false);
+      setGallerySelection(visibleGallery.map(e => e.id));
+  };
+
+  const clearGallerySelection = () => {
+      setConfirmGalleryDelete(false);
+      setGallerySelection([]);
+  };
+
+  const bulkDeleteGallery = async () => {
+      const ids = bulkTargets.map(e => e.id);
+      setIsGalleryBusy(true);
+      setConfirmGalleryDelete(false);
+      const deleted: string[] = [];
+      try {
+          for (const id of ids) {
+              await deleteFromGallery(id);
+              deleted.push(id);
+          }
+          logToConsole(`ARCHIVE: ${deleted.length} ASSET(S) DELETED`, 'success');
+      } catch (err: any) {
+          logToConsole(`ARCHIVE DELETE FAILED AFTER ${deleted.length}/${ids.length}: ${err?.message || err}`, 'error');
+      } finally {
+          setGallerySelection(prev => prev.filter(id => !deleted.includes(id)));
+          if (selectedGalleryId && deleted.includes(selectedGalleryId)) setSelectedGalleryId(null);
+          setIsGalleryBusy(false);
+          refreshGallery();
+      }
+  };
+
+  const bulkTagGallery = async () => {
+      const tag = normalizeTag(bulkTagDraft);
+      setBulkTagDraft('');
+      if (!tag) return;
+      const targets = bulkTargets.filter(e => !e.tags.includes(tag));
+      setIsGalleryBusy(true);
+      for (const entry of targets) {
+          await patchGalleryEntry(entry, { tags: [...entry.tags, tag] });
+      }
+      setIsGalleryBusy(false);
+      logToConsole(`ARCHIVE: TAGGED ${targets.length} ASSET(S) #${tag}`, 'success');
+  };
+
+  const exportGallerySelection = async () => {
+      if (bulkTargets.length === 0) return;
+      setIsGalleryBusy(true);
+      logToConsole(`PACKING ${bulkTargets.length} ASSET(S) FOR EXPORT...`, 'system');
+      try {
+          const { zip, exported, missing } = await exportGalleryZip(bulkTargets);
+          const url = URL.createObjectURL(zip);
+          const filename = `flux_archive_${Date.now()}.zip`;
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = filename;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+          // Let the download start before releasing the Blob
+          setTimeout(() => URL.revokeObjectURL(url), 1000);
+          if (missing.length > 0) logToConsole(`EXPORT SKIPPED ${missing.length} ASSET(S) WITH NO STORED IMAGE`, 'warn');
+          logToConsole(`ARCHIVE EXPORTED: ${filename} (${exported} ASSETS, ${formatBytes(zip.size)})`, 'success');
+      } catch (err: any) {
+          logToConsole(`EXPORT FAILED: ${err?.message || err}`, 'error');
+      } finally {
+          setIsGalleryBusy(false);
+      }
+  };
+
+  // Promote one batch candidate to the history root; the rest go straight to the archive
+  const selectBatchResult = (chosen: GeneratedImage) => {
+      if (!batchResults) return;
+      const rest = batchResults.filter(img => img.id !== chosen.id);
+      updateHistory(chosen, true);
+      archiveImages(rest);
+      setBatchResults(null);
+      logToConsole(`BATCH SELECTION: CANDIDATE ${batchResults.indexOf(chosen) + 1} LOCKED. ${rest.length} ARCHIVED.`, 'info');
+  };
+
+  const undoTarget = getUndoTarget(historyTree);
+  const redoTarget = getRedoTarget(historyTree);
+  const historyBranch = getActiveBranch(historyTree);
+  const historyNodeCount = Object.keys(historyTree.nodes).length;
+
+  const moveHistory = (id: string) => {
+    setHistoryTree(prev => moveHistoryTo(prev, id));
+    setGeneratedImage(historyTree.nodes[id].image);
   };
 
   const handleUndo = () => {
-    if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      setHistoryIndex(newIndex);
-      setGeneratedImage(history[newIndex]);
+    if (undoTarget) {
+      moveHistory(undoTarget);
       logToConsole("HISTORY: UNDO ACTION PERFORMED", 'info');
     }
   };
 
   const handleRedo = () => {
-    if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1;
-      setHistoryIndex(newIndex);
-      setGeneratedImage(history[newIndex]);
+    if (redoTarget) {
+      moveHistory(redoTarget);
       logToConsole("HISTORY: REDO ACTION PERFORMED", 'info');
     }
   };
   
-  const jumpToHistory = (index: number) => {
-      if (index >= 0 && index < history.length) {
-          setHistoryIndex(index);
-          setGeneratedImage(history[index]);
-          logToConsole(`CHRONOSPHERE JUMP: INDEX ${index}`, 'info');
+  const jumpToHistory = (id: string) => {
+      if (historyTree.nodes[id]) {
+          moveHistory(id);
+          logToConsole(`CHRONOSPHERE JUMP: NODE ${id}`, 'info');
       }
   }
 
+  // Steps to the next (or previous) sibling of a node in the branch, wrapping around
+  const switchHistoryBranch = (id: string, step: number) => {
+      const siblings = getSiblingIds(historyTree, id);
+      if (siblings.length < 2) return;
+      const target = siblings[(siblings.indexOf(id) + step + siblings.length) % siblings.length];
+      moveHistory(target);
+      logToConsole(`CHRONOSPHERE: BRANCH ${siblings.indexOf(target) + 1}/${siblings.length}`, 'info');
+  };
+
   const handleAuthSubmit = async () => {
       if (!customApiKey.trim()) {
           setAuthModalError("INVALID: KEY STRING EMPTY");
@@ -825,7 +1388,7 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
 
       if (isValid) {
           setShowAuthModal(false);
-          setError(null); // Clear thematic error
+          clearError(); // Clear thematic error
           logToConsole("IDENTITY VERIFIED. ENCRYPTION KEYS ROTATED.", 'success');
           // Optional: Auto-retry logic could go here, but for now we let the user click Initiate again
       } else {
@@ -839,232 +1402,269 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
     if (!prompt.trim() && !uploadedImage) return;
 
     // --- CHECK FOR API KEY FIRST ---
-    if (!customApiKey) {
+    if (activeProvider.requiresApiKey && !customApiKey) {
         logToConsole("SECURITY PROTOCOL: MISSING AUTH KEY", 'warn');
         setError("SECURITY PROTOCOL ACTIVATED: AUTHORIZATION REQUIRED");
         setShowAuthModal(true);
         return;
     }
 
+    if (uploadedImage && !activeProvider.capabilities.imageToImage) {
+        handleFailure(new UnsupportedCapabilityError('imageToImage', `${activeProvider.label} does not accept reference images.`), 'GENERATION', { kind: 'generate' });
+        return;
+    }
+
+    if (options.aspectRatio === AspectRatio.CUSTOM && !options.customRatioValue) {
+        logToConsole(`INVALID CUSTOM RATIO "${customRatioInput}". USE W:H (e.g. 21:9, 2.39:1).`, 'error');
+        return;
+    }
+
+    const count = options.count || 1;
+    // Each image may need a hidden fill request to reach a custom ratio, so room is reserved for those too
+    const maxFills = options.aspectRatio === AspectRatio.CUSTOM && activeProvider.capabilities.edit ? count : 0;
+
     // --- RATE LIMIT CHECK ---
-    if (!checkRateLimit()) return;
+    if (!checkRateLimit(count + maxFills)) return;
     
     setIsLoading(true);
-    setProcessingMessage("INITIATING SYNTHESIS...");
-    setError(null);
+    setProcessingMessage(count > 1 ? `INITIATING SYNTHESIS x${count}...` : "INITIATING SYNTHESIS...");
+    setBatchResults(null);
+    clearError();
+    const signal = beginOperation();
     setShowSuggestions(false);
     
-    logToConsole(`INITIATING GENERATION: "${prompt.substring(0, 30)}..."`, 'info');
+    logToConsole(`INITIATING GENERATION${count > 1 ? ` (BATCH x${count})` : ''}: "${prompt.substring(0, 30)}..."`, 'info');
 
     try {
-      const finalRatio = options.aspectRatio === AspectRatio.CUSTOM 
-        ? AspectRatio.SQUARE // Generate square then crop
-        : options.aspectRatio;
-
-      const image = await generateImage(
+      // Custom ratios render at the nearest API ratio and are conformed to the exact value by the service
+      let fills = 0;
+      const images = await generateImages(
         prompt, 
-        { ...options, aspectRatio: finalRatio },
+        { ...options, count },
         uploadedImage || undefined,
-        customApiKey // Pass the key state
+        customApiKey, // Pass the key state
+        buildServiceRequest('GENERATION', signal, () => fills++)
       );
       
-      // Store clean version before watermark
-      const cleanBase64 = image.base64;
-
-      // Automatically apply watermark
-      const watermarkedBase64 = await applyWatermark(image.base64);
-      const finalImage: GeneratedImage = { 
-          ...image, 
-          base64: watermarkedBase64,
-          cleanBase64: cleanBase64 // Save raw
-      };
-
-      updateHistory(finalImage, true);
-      incrementRateLimit(); // RECORD USAGE
-      logToConsole("GENERATION COMPLETE. IMAGE RENDERED.", 'success');
-      
-    } catch (err: any) {
-      console.error(err);
-      let errorMsg = "";
-      if (typeof err === 'object') {
-          try {
-             errorMsg = JSON.stringify(err);
-          } catch {
-             errorMsg = String(err);
-          }
-      } else {
-          errorMsg = String(err);
+      // The active preset's LUT starts each image's adjustment stack, so the look stays editable
+      const look = activeLook && getLut(activeLook.id) ? [createLutAdjustment(activeLook.id, activeLook.intensity)] : undefined;
+      const input = uploadedImage ? { kind: 'upload' as const, hash: await hashBase64(uploadedImage) } : undefined;
+
+      // Store clean version before watermark, then automatically apply watermark
+      const finalImages: GeneratedImage[] = await Promise.all(images.map(async image => {
+          const renderedBase64 = look ? await renderAdjustmentStack(image.base64, look) : undefined;
+          return {
+              ...image,
+              base64: await applyWatermark(renderedBase64 ?? image.base64),
+              cleanBase64: image.base64, // Save raw
+              adjustments: look,
+              renderedBase64,
+              input
+          };
+      }));
+
+      // Cancelled while finishing up: discard without touching history or quota
+      if (signal.aborted) throw new CancelledError();
+
+      incrementRateLimit(finalImages.length + fills); // RECORD USAGE (per image, plus the ratio fills behind them)
+      if (finalImages.length < count) {
+          logToConsole(`BATCH PARTIAL: ${finalImages.length}/${count} IMAGES RETURNED.`, 'warn');
       }
 
-      // Check for specific API errors
-      if (errorMsg.includes("403") || errorMsg.includes("PERMISSION_DENIED")) {
-           logToConsole(`FATAL ERROR (403): ${errorMsg}`, 'error');
-           logToConsole("SECURITY PROTOCOL ACTIVATED: AUTHORIZATION REQUIRED", 'warn');
-           setError("SECURITY PROTOCOL ACTIVATED: AUTHORIZATION REQUIRED");
-           setShowAuthModal(true); // TRIGGER AUTH MODAL
-      } else if (errorMsg.includes("429") || errorMsg.includes("RESOURCE_EXHAUSTED")) {
-           logToConsole(`FATAL ERROR (429): ${errorMsg}`, 'error');
-           setError("SYSTEM OVERLOAD (429): API RATE LIMIT EXCEEDED.");
+      if (count === 1) {
+          updateHistory(finalImages[0], true);
+          logToConsole(`GENERATION COMPLETE. IMAGE RENDERED @ ${finalImages[0].resolution || options.resolution}.`, 'success');
       } else {
-           // Fallback to thematic for unknown errors
-           logToConsole(`RUNTIME ERROR: ${errorMsg}`, 'error');
-           const thematic = THEMATIC_ERRORS[Math.floor(Math.random() * THEMATIC_ERRORS.length)];
-           setError(thematic);
+          setBatchResults(finalImages);
+          logToConsole(`BATCH COMPLETE. ${finalImages.length} CANDIDATES READY FOR SELECTION.`, 'success');
       }
-
-      triggerCriticalError(); 
+      
+    } catch (err: any) {
+      handleFailure(err, 'GENERATION', { kind: 'generate' });
     } finally {
-      setIsLoading(false);
-      setProcessingMessage("");
+      endOperation(signal);
     }
   };
 
   const handleEdit = async () => {
-    if (!generatedImage || !editPrompt.trim()) return;
+    if (!generatedImage) return;
+    // Regions without their own instruction fall back to the main edit prompt
+    const regions = editRegions.map(r => ({ ...r, instruction: r.instruction.trim() || editPrompt.trim() }));
+    if (regions.length > 0 ? regions.some(r => !r.instruction) : !editPrompt.trim()) return;
 
-    if (!customApiKey) {
+    if (activeProvider.requiresApiKey && !customApiKey) {
         logToConsole("SECURITY PROTOCOL: MISSING AUTH KEY", 'warn');
         setError("SECURITY PROTOCOL ACTIVATED: AUTHORIZATION REQUIRED");
         setShowAuthModal(true);
         return;
     }
+
+    if (!activeProvider.capabilities.edit) {
+        handleFailure(new UnsupportedCapabilityError('edit', `${activeProvider.label} does not support editing.`), 'EDIT', { kind: 'edit' });
+        return;
+    }
     
     // --- RATE LIMIT CHECK ---
     if (!checkRateLimit()) return;
     
     setIsLoading(true);
     setProcessingMessage("MODULATING VISUAL DATA...");
-    setError(null);
+    clearError();
+    const signal = beginOperation();
     logToConsole(`INITIATING EDIT: "${editPrompt.substring(0, 30)}..."`, 'info');
 
     try {
-      // If selection box is active, prepend instructions
-      let finalPrompt = editPrompt;
-      if (selectionBox) {
-         // Calculate percentages
-         const top = selectionBox.y.toFixed(1);
-         const left = selectionBox.x.toFixed(1);
-         const width = selectionBox.w.toFixed(1);
-         const height = selectionBox.h.toFixed(1);
-         
-         finalPrompt = `Apply this change EXCLUSIVELY to the region bounded by Top: ${top}%, Left: ${left}%, Width: ${width}%, Height: ${height}%. Task: ${editPrompt}`;
-      }
-
-      // USE CLEAN BASE64 IF AVAILABLE
+      // USE CLEAN BASE64 IF AVAILABLE (with its adjustment stack rendered in)
       const sourceImage = {
           ...generatedImage,
-          base64: generatedImage.cleanBase64 || generatedImage.base64
+          base64: getWorkingBase64(generatedImage)
       };
 
-      const image = await editImage(sourceImage, finalPrompt, options, customApiKey);
+      // Numbered regions go first, then a painted mask, then the selection box; any of them is sent as a mask
+      const mask = regions.length > 0
+          ? await createSelectionMask(sourceImage.base64, regions.map(r => r.box))
+          : hasPaintedMask && maskLayerRef.current
+              ? maskLayerToPng(maskLayerRef.current)
+              : selectionBox ? await createSelectionMask(sourceImage.base64, selectionBox) : undefined;
+      if (mask) logToConsole(regions.length > 0 ? `REGION MASK ATTACHED: ${regions.length} TARGETS` : "MASK LAYER ATTACHED TO EDIT REQUEST", 'system');
+      if (regions.length > 0 && hasPaintedMask) logToConsole("PAINTED MASK NOT SENT: NUMBERED REGIONS TAKE PRIORITY. REMOVE THE REGIONS TO EDIT THE PAINTED AREA.", 'warn');
+
+      const instruction = regions.length > 0 ? buildRegionInstruction(regions) : editPrompt;
+      const image = await editImage(sourceImage, instruction, options, mask, customApiKey, buildServiceRequest('EDIT', signal));
       
-      // Store new clean version
-      const cleanBase64 = image.base64;
-
-      // Re-apply watermark on edited image
-      const watermarkedBase64 = await applyWatermark(image.base64);
-      const finalImage = { 
+      // Masked edits only replace the selected region(s), in both the clean and the watermarked copy
+      const { base64, cleanBase64 } = await composeEditResult(sourceImage.base64, image.base64, { regions, mask });
+      const finalImage: GeneratedImage = { 
           ...image, 
-          base64: watermarkedBase64,
-          cleanBase64: cleanBase64
+          base64,
+          cleanBase64
       };
+      if (regions.length > 0) {
+          finalImage.regions = regions;
+      } else if (selectionBox && !(hasPaintedMask && maskLayerRef.current)) {
+          finalImage.selection = selectionBox;
+      }
+
+      if (signal.aborted) throw new CancelledError();
 
       updateHistory(finalImage);
       incrementRateLimit(); // RECORD USAGE
       setEditPrompt('');
-      if (!options.customRatioValue) {
-          setSelectionBox(null);
-          setIsTargetMode(false);
-      }
+      setSelectionBox(null);
+      setIsTargetMode(false);
+      setEditRegions([]);
+      clearMask();
       logToConsole("EDIT COMPLETE. MATRIX UPDATED.", 'success');
     } catch (err: any) {
-      console.error(err);
-      
-      let errorMsg = "";
-      if (typeof err === 'object') {
-          try { errorMsg = JSON.stringify(err); } catch { errorMsg = String(err); }
-      } else { errorMsg = String(err); }
-
-      if (errorMsg.includes("403") || errorMsg.includes("PERMISSION_DENIED")) {
-           logToConsole(`FATAL ERROR (403): ${errorMsg}`, 'error');
-           setError("SECURITY PROTOCOL ACTIVATED: AUTHORIZATION REQUIRED");
-           setShowAuthModal(true);
-      } else {
-           logToConsole(`EDIT ERROR: ${errorMsg}`, 'error');
-           setError(THEMATIC_ERRORS[Math.floor(Math.random() * THEMATIC_ERRORS.length)]);
-      }
-
-      triggerCriticalError(); 
+      handleFailure(err, 'EDIT', { kind: 'edit' });
     } finally {
-      setIsLoading(false);
-      setProcessingMessage("");
+      endOperation(signal);
     }
   };
 
-  const handleOutpaint = async () => {
+  const handleOutpaint = async (resumeFrom?: OutpaintResume) => {
     if (!generatedImage) return;
 
-    if (!customApiKey) {
+    const targetRatio = outpaintMode === 'ratio' ? parseAspectRatio(outpaintRatio) : null;
+    if (!resumeFrom) {
+        if (outpaintMode === 'ratio' && !targetRatio) {
+            logToConsole(`OUTPAINT: INVALID RATIO "${outpaintRatio}" (USE W:H)`, 'error');
+            return;
+        }
+        if (outpaintMode === 'sides' && outpaintExtents.left + outpaintExtents.right + outpaintExtents.top + outpaintExtents.bottom <= 0) {
+            logToConsole("OUTPAINT: ALL SIDES AT 0%. NOTHING TO EXTEND.", 'warn');
+            return;
+        }
+    }
+
+    if (activeProvider.requiresApiKey && !customApiKey) {
         logToConsole("SECURITY PROTOCOL: MISSING AUTH KEY", 'warn');
         setError("SECURITY PROTOCOL ACTIVATED: AUTHORIZATION REQUIRED");
         setShowAuthModal(true);
         return;
     }
 
+    if (!activeProvider.capabilities.edit) {
+        handleFailure(new UnsupportedCapabilityError('edit', `${activeProvider.label} does not support editing.`), 'OUTPAINT', { kind: 'outpaint' });
+        return;
+    }
+
     // --- RATE LIMIT CHECK ---
     if (!checkRateLimit()) return;
     
     setIsLoading(true);
     setProcessingMessage("EXPANDING CANVAS BOUNDARIES...");
+    clearError();
+    const signal = beginOperation();
     
+    // Step 1 output, kept outside the try so a failed fill can resume from it
+    let resume: OutpaintResume | undefined = resumeFrom;
+
     try {
-      // USE CLEAN BASE64
-      const sourceBase64 = generatedImage.cleanBase64 || generatedImage.base64;
-      
-      const extendedBase64 = await extendImage(sourceBase64);
-      const extendedImage: GeneratedImage = {
-        ...generatedImage,
-        id: Date.now().toString(),
-        base64: extendedBase64,
-        cleanBase64: extendedBase64, // This is the extended clean base
-        timestamp: Date.now()
-      };
-      // We treat this as a new edit in the history
-      updateHistory(extendedImage);
+      if (!resume) {
+        // USE CLEAN BASE64
+        const sourceBase64 = getWorkingBase64(generatedImage);
+
+        let extents = outpaintExtents;
+        if (targetRatio) {
+            const { width, height } = await getImageDimensions(sourceBase64);
+            extents = extentsForRatio(width, height, targetRatio);
+            if (Math.max(extents.left, extents.right, extents.top, extents.bottom) < 0.005) {
+                logToConsole(`OUTPAINT: IMAGE ALREADY AT ${outpaintRatio}.`, 'warn');
+                return;
+            }
+        }
+        
+        const extendedBase64 = await extendImage(sourceBase64, extents);
+        const placement = extentsToSelection(extents);
+        resume = {
+          image: deriveImage(generatedImage, 'outpaint', {
+            base64: extendedBase64,
+            cleanBase64: extendedBase64, // This is the extended clean base
+            selection: placement
+          }),
+          placement
+        };
+        logToConsole("OUTPAINT STEP 1/2: CANVAS EXTENDED.", 'info');
+      } else {
+        logToConsole("OUTPAINT RESUMING AT STEP 2/2: FILL.", 'info');
+      }
+      const extendedImage = resume.image;
+
+      // Only the new area is open to the model
+      const fillMask = await createSelectionMask(extendedImage.base64, surroundingBoxes(resume.placement));
+      const fillInstruction = "Seamlessly extend the scene into the empty dark area, matching the style and lighting of the central image."
+        + (outpaintPrompt.trim() ? ` In the new area, add: ${outpaintPrompt.trim()}.` : "");
+      // Ask for the API ratio closest to the extended frame; the image still records the user's options
+      const { width: extendedWidth, height: extendedHeight } = await getImageDimensions(extendedImage.base64);
       
       // Now ask AI to fill it (using the extended image which is clean)
-      const filledImage = await editImage(extendedImage, "Seamlessly extend the scene into the empty dark area, matching the style and lighting of the central image.", options, customApiKey);
+      const filledImage = await editImage(extendedImage, fillInstruction, options, fillMask, customApiKey, buildServiceRequest('OUTPAINT', signal), extendedWidth / extendedHeight);
       
-      const filledClean = filledImage.base64;
+      // Blend the untouched original back over the fill
+      const filledClean = await blendOutpaint(filledImage.base64, extendedImage.base64, resume.placement);
 
       // Re-apply watermark
       const watermarkedBase64 = await applyWatermark(filledClean);
-      const finalImage = { 
+      const finalImage: GeneratedImage = { 
           ...filledImage, 
           base64: watermarkedBase64,
-          cleanBase64: filledClean
+          cleanBase64: filledClean,
+          operation: 'outpaint',
+          selection: resume.placement
       };
 
+      if (signal.aborted) throw new CancelledError();
+
+      // Both steps land in history only once the fill succeeded
+      updateHistory(extendedImage);
       updateHistory(finalImage); // Update again with filled version
       incrementRateLimit(); // RECORD USAGE
       logToConsole("OUTPAINTING COMPLETE. HORIZON EXPANDED.", 'success');
     } catch (err: any) {
-       console.error(err);
-       let errorMsg = "";
-       try { errorMsg = JSON.stringify(err); } catch { errorMsg = String(err); }
-       
-       if (errorMsg.includes("403") || errorMsg.includes("PERMISSION_DENIED")) {
-           logToConsole(`FATAL ERROR (403): ${errorMsg}`, 'error');
-           setError("SECURITY PROTOCOL ACTIVATED: AUTHORIZATION REQUIRED");
-           setShowAuthModal(true);
-       } else {
-           logToConsole(`OUTPAINT ERROR: ${errorMsg}`, 'error');
-           setError(THEMATIC_ERRORS[Math.floor(Math.random() * THEMATIC_ERRORS.length)]);
-       }
-
-       triggerCriticalError();
+      handleFailure(err, 'OUTPAINT', { kind: 'outpaint', resumeFrom: resume });
     } finally {
-      setIsLoading(false);
+      endOperation(signal);
     }
   };
 
@@ -1086,12 +1686,14 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
     const newPreset: Preset = {
       id: Date.now().toString(),
       name: newPresetName,
-      options: { ...options }
+      options: { ...options },
+      ...(newPresetLut ? { lut: newPresetLut } : {})
     };
     const updatedPresets = [...presets, newPreset];
     setPresets(updatedPresets);
     localStorage.setItem('infogenius_presets', JSON.stringify(updatedPresets));
     setNewPresetName('');
+    setNewPresetLut(null);
     setShowPresetSave(false);
     logToConsole(`PRESET SAVED: ${newPresetName}`, 'success');
   };
@@ -1100,6 +1702,13 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
     setOptions(preset.options);
     setPresetDropdownOpen(false);
     logToConsole(`PRESET LOADED: ${preset.name}`, 'info');
+    if (preset.lut && !getLut(preset.lut.id)) {
+        logToConsole("PRESET LOOK MISSING FROM LUT LIBRARY. GENERATING WITHOUT IT.", 'warn');
+        setActiveLook(null);
+    } else {
+        setActiveLook(preset.lut ?? null);
+        if (preset.lut) logToConsole(`LOOK ACTIVE: ${getLut(preset.lut.id)?.name} @ ${preset.lut.intensity}%`, 'system');
+    }
   };
   
   const deletePreset = (id: string, e: React.MouseEvent) => {
@@ -1110,7 +1719,62 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
       logToConsole(`PRESET DELETED: ${id}`, 'warn');
   }
 
-  // --- POINTER EVENT HANDLERS FOR IMAGE INTERACTION (Pan vs Draw Box) ---
+  // --- MASK LAYER ---
+  // The image rect already includes zoom/pan transforms, so pointer positions map straight to natural pixels
+  const toImagePoint = (e: React.PointerEvent) => {
+      const img = imageRef.current!;
+      const rect = img.getBoundingClientRect();
+      const xPct = Math.max(0, Math.min(100, ((e.clientX - rect.left) / rect.width) * 100));
+      const yPct = Math.max(0, Math.min(100, ((e.clientY - rect.top) / rect.height) * 100));
+      return {
+          pct: { x: xPct, y: yPct },
+          px: { x: (xPct / 100) * img.naturalWidth, y: (yPct / 100) * img.naturalHeight },
+      };
+  };
+
+  const ensureMaskLayer = (): HTMLCanvasElement | null => {
+      const img = imageRef.current;
+      if (!img || !img.naturalWidth) return null;
+      if (!maskLayerRef.current) {
+          maskLayerRef.current = createMaskLayer(img.naturalWidth, img.naturalHeight);
+      }
+      return maskLayerRef.current;
+  };
+
+  const refreshMaskOverlay = () => {
+      if (maskLayerRef.current && maskOverlayRef.current) {
+          renderMaskOverlay(maskLayerRef.current, maskOverlayRef.current);
+      }
+  };
+
+  const getBrushRadius = () => {
+      const img = imageRef.current;
+      if (!img) return 1;
+      return Math.max(1, (brushSize / 100) * Math.min(img.naturalWidth, img.naturalHeight) / 2);
+  };
+
+  const clearMask = () => {
+      if (maskLayerRef.current) clearMaskLayer(maskLayerRef.current);
+      refreshMaskOverlay();
+      setHasPaintedMask(false);
+      setLassoPoints([]);
+  };
+
+  const invertMask = () => {
+      const layer = ensureMaskLayer();
+      if (!layer) return;
+      invertMaskLayer(layer);
+      refreshMaskOverlay();
+      setHasPaintedMask(!isMaskLayerEmpty(layer));
+      logToConsole("MASK LAYER INVERTED", 'info');
+  };
+
+  // Overlay canvas remounts with target mode; repaint it from the offscreen layer
+  useEffect(() => {
+      refreshMaskOverlay();
+  }, [isTargetMode, generatedImage?.id]);
+
+  // --- POINTER EVENT HANDLERS FOR IMAGE INTERACTION (Pan vs Draw Box vs Paint) ---
   const handlePointerDown = (e: React.PointerEvent) => {
       e.preventDefault(); // Prevent native image dragging
       if (!generatedImage) return;
@@ -1122,7 +1786,22 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
       if (!imageRef.current) return;
       const rect = imageRef.current.getBoundingClientRect();
 
-      if (isTargetMode) {
+      // Middle button or Alt+drag pans in every mode
+      const panGesture = e.button === 1 || e.altKey;
+
+      if (isTargetMode && !panGesture && maskTool !== 'box') {
+          const layer = ensureMaskLayer();
+          if (!layer) return;
+          const point = toImagePoint(e);
+          isPaintingRef.current = true;
+          if (maskTool === 'lasso') {
+              setLassoPoints([point.pct]);
+          } else {
+              stampBrush(layer, point.px, getBrushRadius(), brushHardness / 100, maskTool === 'eraser');
+              lastPaintPointRef.current = point.px;
+              refreshMaskOverlay();
+          }
+      } else if (isTargetMode && !panGesture) {
           // DRAW BOX LOGIC - Relative to Image Element
           const xPct = ((e.clientX - rect.left) / rect.width) * 100;
           const yPct = ((e.clientY - rect.top) / rect.height) * 100;
@@ -1142,7 +1821,21 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
       e.preventDefault(); // Prevent native behaviors
       if (!generatedImage || !imageRef.current) return;
 
-      if (isTargetMode && isDrawingBox && drawStart) {
+      if (isTargetMode && isPaintingRef.current) {
+          const point = toImagePoint(e);
+          if (maskTool === 'lasso') {
+              setLassoPoints(prev => {
+                  const last = prev[prev.length - 1];
+                  // Skip near-duplicate samples to keep the polygon light
+                  if (last && Math.hypot(point.pct.x - last.x, point.pct.y - last.y) < 0.3) return prev;
+                  return [...prev, point.pct];
+              });
+          } else if (maskLayerRef.current && lastPaintPointRef.current) {
+              strokeBrush(maskLayerRef.current, lastPaintPointRef.current, point.px, getBrushRadius(), brushHardness / 100, maskTool === 'eraser');
+              lastPaintPointRef.current = point.px;
+              refreshMaskOverlay();
+          }
+      } else if (isTargetMode && isDrawingBox && drawStart) {
           // DRAW BOX LOGIC - Relative to Image Element
           const rect = imageRef.current.getBoundingClientRect();
           let currX = ((e.clientX - rect.left) / rect.width) * 100;
@@ -1170,9 +1863,326 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
       if (e.currentTarget) {
           e.currentTarget.releasePointerCapture(e.pointerId);
       }
+      // A finished box becomes the next numbered region
+      if (isDrawingBox && selectionBox && selectionBox.w > 1 && selectionBox.h > 1) {
+          const box = selectionBox;
+          setEditRegions(prev => [...prev, { id: prev.length + 1, box, instruction: '' }]);
+          setSelectionBox(null);
+      }
       setIsPanning(false);
       setIsDrawingBox(false);
       setDrawStart(null);
+
+      if (isPaintingRef.current) {
+          isPaintingRef.current = false;
+          lastPaintPointRef.current = null;
+          const layer = maskLayerRef.current;
+          const img = imageRef.current;
+          if (layer && img && maskTool === 'lasso') {
+              fillLasso(layer, lassoPoints.map(p => ({ x: (p.x / 100) * img.naturalWidth, y: (p.y / 100) * img.naturalHeight })));
+              setLassoPoints([]);
+              refreshMaskOverlay();
+          }
+          if (layer) setHasPaintedMask(!isMaskLayerEmpty(layer));
+      }
+  };
+
+  // --- REDACTION ---
+  // Applies to every pinned region plus the active selection box
+  const handleRedact = async () => {
+      if (!generatedImage) return;
+      const boxes = [...editRegions.map(r => r.box), ...(selectionBox ? [selectionBox] : [])];
+      if (boxes.length === 0) {
+          logToConsole("REDACT: SELECT AN AREA OR DETECT OBJECTS FIRST", 'warn');
+          return;
+      }
+
+      try {
+          // USE CLEAN SOURCE: the adjustment stack stays editable and is re-rendered over the redaction
+          const source = generatedImage.cleanBase64 || generatedImage.base64;
+          const redactedClean = await applyBlur(source, redactIntensity, boxes, redactMode, redactFeather);
+          const stack = await carryAdjustments(redactedClean, generatedImage.adjustments);
+          const watermarked = await applyWatermark(stack.renderedBase64 ?? redactedClean);
+          updateHistory(deriveImage(generatedImage, 'filter', {
+              base64: watermarked,
+              ...stack,
+              redactions: boxes
+          }));
+          logToConsole(`REDACTED ${boxes.length} AREA(S) // MODE: ${redactMode.toUpperCase()}`, 'success');
+      } catch (err: any) {
+          logToConsole(`REDACT ERROR: ${err?.message || err}`, 'error');
+      }
+  };
+
+  // --- ADJUSTMENT STACK ---
+  const isAdjustmentDraftDirty = !!generatedImage && JSON.stringify(adjustmentStack) !== JSON.stringify(generatedImage.adjustments ?? []);
+
+  // Live preview: re-render the draft from the clean source at preview size, debounced while sliders move
+  useEffect(() => {
+      if (!showFilters || !generatedImage || !isAdjustmentDraftDirty) {
+          setAdjustmentPreview(null);
+          return;
+      }
+      let cancelled = false;
+      const source = generatedImage.cleanBase64 || generatedImage.base64;
+      const t = setTimeout(() => {
+          renderAdjustmentStack(source, adjustmentStack, ADJUSTMENT_PREVIEW_EDGE)
+              .then(base64 => { if (!cancelled) setAdjustmentPreview(base64); })
+              .catch(err => logToConsole(`ADJUSTMENT PREVIEW ERROR: ${err?.message || err}`, 'error'));
+      }, 120);
+      return () => {
+          cancelled = true;
+          clearTimeout(t);
+      };
+  }, [showFilters, generatedImage, adjustmentStack, isAdjustmentDraftDirty]);
+
+  // Live histogram of whatever the viewer shows: the draft preview, or the saved render
+  useEffect(() => {
+      if (!showFilters || !generatedImage) {
+          setHistogram(null);
+          return;
+      }
+      let cancelled = false;
+      getImageHistogram(adjustmentPreview ?? getWorkingBase64(generatedImage))
+          .then(result => { if (!cancelled) setHistogram(result); })
+          .catch(err => logToConsole(`HISTOGRAM ERROR: ${err?.message || err}`, 'error'));
+      return () => { cancelled = true; };
+  }, [showFilters, generatedImage, adjustmentPreview]);
+
+  const handleLutImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const parsed = parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ''));
+          const lut = saveLut(parsed);
+          setLutLibrary(loadLutLibrary());
+          setAdjustmentStack(prev => [...prev, createLutAdjustment(lut.id, 100)]);
+          logToConsole(`LUT IMPORTED: ${lut.name} (${lut.dimension}D, ${lut.size} POINTS)`, 'success');
+      } catch (err: any) {
+          logToConsole(`LUT IMPORT ERROR: ${err?.message || err}`, 'error');
+      }
+  };
+
+  const removeLutFromLibrary = (id: string) => {
+      try {
+          deleteLut(id);
+          setLutLibrary(loadLutLibrary());
+          if (activeLook?.id === id) setActiveLook(null);
+          logToConsole(`LUT REMOVED FROM LIBRARY: ${id}`, 'warn');
+      } catch (err: any) {
+          logToConsole(`LUT LIBRARY ERROR: ${err?.message || err}`, 'error');
+      }
+  };
+
+  const addAdjustment = (type: string) => {
+      setAdjustmentStack(prev => [...prev, createAdjustment(type)]);
+  };
+
+  const updateAdjustment = (id: string, patch: Partial<AdjustmentOperation>) => {
+      setAdjustmentStack(prev => prev.map(op => op.id === id ? { ...op, ...patch } : op));
+  };
+
+  const setAdjustmentParam = (id: string, key: string, value: number) => {
+      setAdjustmentStack(prev => prev.map(op => op.id === id ? { ...op, params: { ...op.params, [key]: value } } : op));
+  };
+
+  const moveAdjustment = (index: number, delta: number) => {
+      setAdjustmentStack(prev => {
+          const target = index + delta;
+          if (target < 0 || target >= prev.length) return prev;
+          const next = [...prev];
+          [next[index], next[target]] = [next[target], next[index]];
+          return next;
+      });
+  };
+
+  const removeAdjustment = (id: string) => {
+      setAdjustmentStack(prev => prev.filter(op => op.id !== id));
+  };
+
+  // Renders the stack at full size from the clean source and stores it on the current image.
+  // The image itself is unchanged, so it is replaced in place instead of adding a history step.
+  const applyAdjustmentStack = async () => {
+      if (!generatedImage) return;
+      setIsRenderingAdjustments(true);
+      try {
+          const clean = generatedImage.cleanBase64 || generatedImage.base64;
+          const rendered = hasActiveAdjustments(adjustmentStack) ? await renderAdjustmentStack(clean, adjustmentStack) : undefined;
+          const watermarked = await applyWatermark(rendered ?? clean);
+          const updated: GeneratedImage = {
+              ...generatedImage,
+              base64: watermarked,
+              cleanBase64: clean,
+              adjustments: adjustmentStack.length > 0 ? adjustmentStack : undefined,
+              renderedBase64: rendered
+          };
+          setHistoryTree(prev => replaceHistoryImage(prev, updated));
+          setGeneratedImage(updated);
+          archiveImages([updated]);
+          logToConsole(`ADJUSTMENT STACK RENDERED: ${adjustmentStack.filter(op => op.enabled).length}/${adjustmentStack.length} OPERATIONS ACTIVE`, 'success');
+      } catch (err: any) {
+          logToConsole(`ADJUSTMENT ERROR: ${err?.message || err}`, 'error');
+      } finally {
+          setIsRenderingAdjustments(false);
+      }
+  };
+
+  // --- CROP / ROTATE / FLIP ---
+  // Pixel ratio the crop box is locked to, or null for free-form
+  const getCropLockRatio = (): number | null => {
+      if (cropRatio === 'free') return null;
+      if (cropRatio === 'original') return cropPreview ? cropPreview.width / cropPreview.height : null;
+      if (cropRatio === 'custom') return parseAspectRatio(cropCustomRatio);
+      return parseAspectRatio(cropRatio);
+  };
+
+  const resetCropBox = (frame: { width: number; height: number } | null = cropPreview) => {
+      const full = { x: 0, y: 0, w: 100, h: 100 };
+      // The full frame already has the original ratio
+      const ratio = cropRatio === 'original' ? null : getCropLockRatio();
+      setCropBox(ratio && frame ? fitBoxToRatio(full, ratio, frame.width, frame.height) : full);
+  };
+
+  const toggleCropMode = () => {
+      const next = !isCropMode;
+      setIsCropMode(next);
+      setCropTransform(IDENTITY_TRANSFORM);
+      setCropBox({ x: 0, y: 0, w: 100, h: 100 });
+      cropDragRef.current = null;
+      if (next) {
+          setIsTargetMode(false);
+          setZoom(1);
+          setPan({ x: 0, y: 0 });
+          logToConsole("CROP MODE ACTIVE. DRAG HANDLES TO FRAME.", 'info');
+      }
+  };
+
+  // Re-render the transformed frame whenever the geometry changes; the box restarts at full frame
+  useEffect(() => {
+      if (!isCropMode || !generatedImage) {
+          setCropPreview(null);
+          return;
+      }
+      let cancelled = false;
+      const source = getWorkingBase64(generatedImage);
+      transformImage(source, cropTransform)
+          .then(async base64 => {
+              const { width, height } = await getImageDimensions(base64);
+              if (cancelled) return;
+              setCropPreview({ base64, width, height });
+              resetCropBox({ width, height });
+          })
+          .catch(err => logToConsole(`CROP PREVIEW ERROR: ${err?.message || err}`, 'error'));
+      return () => { cancelled = true; };
+  }, [isCropMode, cropTransform, generatedImage?.id]);
+
+  // Changing the ratio lock refits the current box
+  useEffect(() => {
+      if (!cropPreview) return;
+      const ratio = getCropLockRatio();
+      if (ratio) setCropBox(prev => fitBoxToRatio(prev, ratio, cropPreview.width, cropPreview.height));
+  }, [cropRatio, cropCustomRatio]);
+
+  const toCropPct = (e: React.PointerEvent) => {
+      const rect = cropImageRef.current!.getBoundingClientRect();
+      return {
+          x: ((e.clientX - rect.left) / rect.width) * 100,
+          y: ((e.clientY - rect.top) / rect.height) * 100,
+      };
+  };
+
+  const handleCropPointerDown = (handle: CropHandle) => (e: React.PointerEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (!cropImageRef.current) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      cropDragRef.current = { handle, start: toCropPct(e), box: cropBox };
+  };
+
+  const handleCropPointerMove = (e: React.PointerEvent) => {
+      const drag = cropDragRef.current;
+      if (!drag || !cropImageRef.current || !cropPreview) return;
+      const point = toCropPct(e);
+      const ratio = getCropLockRatio();
+      setCropBox(dragCropBox(
+          drag.box,
+          drag.handle,
+          point.x - drag.start.x,
+          point.y - drag.start.y,
+          ratio ? { ratio, frameWidth: cropPreview.width, frameHeight: cropPreview.height } : undefined
+      ));
+  };
+
+  const handleCropPointerUp = (e: React.PointerEvent) => {
+      if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+      cropDragRef.current = null;
+  };
+
+  const applyCrop = async () => {
+      if (!generatedImage || !cropPreview) return;
+      try {
+          // The preview shows the adjusted render; the crop cuts the same frame from the clean source
+          // and keeps the adjustment stack on top, then re-watermarks
+          const clean = generatedImage.cleanBase64 || generatedImage.base64;
+          const croppedClean = await cropImage(await transformImage(clean, cropTransform), cropBox);
+          const stack = await carryAdjustments(croppedClean, generatedImage.adjustments);
+          const watermarked = await applyWatermark(stack.renderedBase64 ?? croppedClean);
+          updateHistory(deriveImage(generatedImage, 'crop', {
+              base64: watermarked,
+              ...stack,
+              selection: cropBox
+          }));
+          const { width, height } = await getImageDimensions(croppedClean);
+          logToConsole(`CROP APPLIED: ${width}x${height}${cropTransform.quarterTurns || cropTransform.angle ? ` // ROTATED ${cropTransform.quarterTurns * 90 + cropTransform.angle}°` : ''}`, 'success');
+          setIsCropMode(false);
+      } catch (err: any) {
+          logToConsole(`CROP ERROR: ${err?.message || err}`, 'error');
+      }
+  };
+
+  // --- OBJECT DETECTION ---
+  const handleDetectObjects = async () => {
+      if (!generatedImage || isDetecting || isLoading) return;
+      if (!activeProvider.capabilities.detect) {
+          logToConsole(`DETECT: ${activeProvider.label} cannot analyze images`, 'error');
+          return;
+      }
+      if (activeProvider.requiresApiKey && !customApiKey) {
+          setShowAuthModal(true);
+          return;
+      }
+
+      const imageId = generatedImage.id;
+      setIsDetecting(true);
+      setIsLoading(true);
+      setProcessingMessage("SCANNING FOR OBJECTS...");
+      const signal = beginOperation();
+      logToConsole("SCANNING FOR OBJECTS...", 'info');
+      try {
+          const objects = await detectObjects(
+              { ...generatedImage, base64: getWorkingBase64(generatedImage) },
+              options,
+              customApiKey,
+              buildServiceRequest('DETECT', signal)
+          );
+          // Cancelled, or the image changed while scanning: these boxes belong to the old frame
+          if (signal.aborted || generatedImageIdRef.current !== imageId) return;
+          setDetectedObjects(objects);
+          logToConsole(objects.length ? `DETECTED ${objects.length} OBJECTS: ${objects.map(o => o.label.toUpperCase()).join(', ')}` : "NO OBJECTS DETECTED", objects.length ? 'success' : 'warn');
+      } catch (err: any) {
+          if (!signal.aborted) logToConsole(`DETECT ERROR: ${err?.message || err}`, 'error');
+      } finally {
+          setIsDetecting(false);
+          endOperation(signal);
+      }
+  };
+
+  const selectDetectedObject = (object: DetectedObject) => {
+      setIsTargetMode(true);
+      setMaskTool('box');
+      setSelectionBox(object.box);
+      logToConsole(`TARGET LOCKED: ${object.label.toUpperCase()}`, 'info');
   };
 
   // Toggle Target Mode: Reset view for easy drawing
@@ -1186,6 +2196,8 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
           logToConsole("TARGET MODE ACTIVE. DRAG TO SELECT AREA.", 'info');
       } else {
           setSelectionBox(null);
+          setEditRegions([]);
+          clearMask();
           logToConsole("TARGET MODE DISABLED.", 'info');
       }
   };
@@ -1214,7 +2226,7 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
         {/* Header Right: Buttons - Desktop */}
         <div className="hidden md:flex gap-4">
             <MagneticButton 
-              onClick={() => setShowGallery(true)}
+              onClick={openGallery}
               className="flex items-center gap-2 px-5 py-2 bg-slate-900/50 border border-slate-700 rounded-lg hover:border-cyan-500 hover:text-cyan-400 transition-all backdrop-blur-md uppercase text-xs tracking-widest font-bold"
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
@@ -1234,7 +2246,7 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
         {/* Mobile Buttons Row */}
         <div className="flex md:hidden gap-4 w-full justify-center mt-4">
              <MagneticButton 
-              onClick={() => setShowGallery(true)}
+              onClick={openGallery}
               className="flex items-center gap-2 px-5 py-2 bg-slate-900/50 border border-slate-700 rounded-lg hover:border-cyan-500 hover:text-cyan-400 transition-all backdrop-blur-md uppercase text-xs tracking-widest font-bold"
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
@@ -1290,6 +2302,7 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                       {`>_`}
                   </div>
                   <input
+                    ref={promptInputRef}
                     type="text"
                     value={prompt}
                     onChange={(e) => setPrompt(e.target.value)}
@@ -1334,10 +2347,19 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                         onClick={async () => {
                            if(!prompt) return;
                            logToConsole("REQUESTING AI SUGGESTIONS...", 'info');
-                           const sugs = await getPromptEnhancements(prompt, customApiKey);
-                           setSuggestions(sugs);
-                           setShowSuggestions(true);
-                           logToConsole(`RECEIVED ${sugs.length} SUGGESTIONS`, 'success');
+                           suggestionControllerRef.current?.abort();
+                           const controller = new AbortController();
+                           suggestionControllerRef.current = controller;
+                           try {
+                               const sugs = await getPromptEnhancements(prompt, customApiKey, controller.signal);
+                               setSuggestions(sugs);
+                               setShowSuggestions(true);
+                               logToConsole(`RECEIVED ${sugs.length} SUGGESTIONS`, 'success');
+                           } catch {
+                               logToConsole("SUGGESTION REQUEST CANCELLED", 'warn');
+                           } finally {
+                               if (suggestionControllerRef.current === controller) suggestionControllerRef.current = null;
+                           }
                         }}
                         className="p-2 text-slate-500 hover:text-yellow-400 transition-colors rounded-lg hover:bg-white/5"
                         title="AI Prompt Enhancer"
@@ -1367,8 +2389,46 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
               )}
             </div>
 
+            {/* Negative Prompt / Seed */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <div className="space-y-2 md:col-span-3">
+                <label className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Exclude</label>
+                <input
+                  type="text"
+                  value={options.negativePrompt || ''}
+                  onChange={(e) => setOptions({ ...options, negativePrompt: e.target.value || undefined })}
+                  placeholder="no text, no watermark, no extra fingers"
+                  className="w-full bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-3 text-xs font-mono text-cyan-100 placeholder-slate-600 outline-none focus:border-cyan-500 transition-all"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Seed</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_SEED}
+                    value={options.seed ?? ''}
+                    onChange={(e) => {
+                        const seed = parseInt(e.target.value, 10);
+                        setOptions({ ...options, seed: isNaN(seed) ? undefined : Math.min(MAX_SEED, Math.max(0, seed)) });
+                    }}
+                    placeholder="RANDOM"
+                    className="w-full min-w-0 bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-3 text-xs font-mono text-cyan-100 placeholder-slate-600 outline-none focus:border-cyan-500 transition-all"
+                  />
+                  <button
+                    onClick={() => setOptions({ ...options, seed: options.seed === undefined ? Math.floor(Math.random() * MAX_SEED) : undefined })}
+                    className="px-3 bg-slate-800 border border-slate-700 rounded-lg text-slate-400 hover:text-white hover:border-slate-500 transition-all text-[10px] font-mono uppercase"
+                    title={options.seed === undefined ? 'Lock a random seed' : 'Clear seed (random each run)'}
+                  >
+                    {options.seed === undefined ? 'Lock' : 'Clear'}
+                  </button>
+                </div>
+              </div>
+            </div>
+
             {/* Controls Grid */}
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-6">
               {/* Model Selector */}
               <div className="space-y-2">
                 <label className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Model</label>
@@ -1413,7 +2473,14 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                 <div className="relative group">
                   <select
                     value={options.aspectRatio}
-                    onChange={(e) => setOptions({ ...options, aspectRatio: e.target.value as AspectRatio })}
+                    onChange={(e) => {
+                        const aspectRatio = e.target.value as AspectRatio;
+                        setOptions({
+                            ...options,
+                            aspectRatio,
+                            customRatioValue: aspectRatio === AspectRatio.CUSTOM ? parseAspectRatio(customRatioInput) ?? undefined : options.customRatioValue
+                        });
+                    }}
                     className="w-full appearance-none bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-3 text-xs font-mono text-cyan-100 outline-none focus:border-cyan-500 transition-all cursor-pointer hover:bg-slate-800"
                   >
                     {Object.values(AspectRatio).map((ratio) => (
@@ -1432,13 +2499,9 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                             value={customRatioInput}
                             onChange={(e) => {
                                 setCustomRatioInput(e.target.value);
-                                const parts = e.target.value.split(':');
-                                if (parts.length === 2) {
-                                    const w = parseFloat(parts[0]);
-                                    const h = parseFloat(parts[1]);
-                                    if (!isNaN(w) && !isNaN(h) && h !== 0) {
-                                        setOptions(prev => ({ ...prev, customRatioValue: w/h }));
-                                    }
+                                const ratio = parseAspectRatio(e.target.value);
+                                if (ratio) {
+                                    setOptions(prev => ({ ...prev, customRatioValue: ratio }));
                                 }
                             }}
                             className="w-full bg-slate-900 border border-cyan-500 text-white text-xs p-2 rounded"
@@ -1448,6 +2511,49 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                 )}
               </div>
 
+              {/* Resolution Selector */}
+              <div className="space-y-2">
+                <label className="text-[10px] uppercase tracking-widest text-slate-500 font-bold flex justify-between">
+                  Resolution
+                  {!activeProvider.nativeResolutions(options.model).includes(options.resolution) && (
+                    <span className="text-amber-500" title="This model renders at a lower size; output is upscaled client-side">Upscaled</span>
+                  )}
+                </label>
+                <div className="relative group">
+                  <select
+                    value={options.resolution}
+                    onChange={(e) => setOptions({ ...options, resolution: e.target.value as ImageResolution })}
+                    className="w-full appearance-none bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-3 text-xs font-mono text-cyan-100 outline-none focus:border-cyan-500 transition-all cursor-pointer hover:bg-slate-800"
+                  >
+                    {Object.values(ImageResolution).map((res) => (
+                      <option key={res} value={res}>{res}</option>
+                    ))}
+                  </select>
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-slate-500">
+                     <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+                  </div>
+                </div>
+              </div>
+
+              {/* Batch Selector */}
+              <div className="space-y-2">
+                <label className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Batch</label>
+                <div className="relative group">
+                  <select
+                    value={options.count || 1}
+                    onChange={(e) => setOptions({ ...options, count: parseInt(e.target.value, 10) })}
+                    className="w-full appearance-none bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-3 text-xs font-mono text-cyan-100 outline-none focus:border-cyan-500 transition-all cursor-pointer hover:bg-slate-800"
+                  >
+                    {Array.from({ length: MAX_BATCH_COUNT }, (_, i) => i + 1).map((n) => (
+                      <option key={n} value={n}>{n === 1 ? '1 Image' : `${n} Images`}</option>
+                    ))}
+                  </select>
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-slate-500">
+                     <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+                  </div>
+                </div>
+              </div>
+
               {/* Presets / Save / Initiate */}
               <div className="flex gap-2 items-end">
                 {/* Initiate Button */}
@@ -1481,6 +2587,12 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                                 Save Current Settings
                             </button>
                             <div className="h-px bg-slate-800 my-1"></div>
+                            {activeLook && (
+                                <div className="flex items-center justify-between px-3 py-1 text-[10px] text-amber-400">
+                                    <span className="truncate">LOOK: {getLut(activeLook.id)?.name ?? 'missing'} @ {activeLook.intensity}%</span>
+                                    <button onClick={() => setActiveLook(null)} className="text-slate-500 hover:text-white" title="Clear look">&times;</button>
+                                </div>
+                            )}
                             {presets.length === 0 && <p className="text-[10px] text-slate-600 px-3 py-2">No presets saved</p>}
                             {presets.map(p => (
                                 <div key={p.id} className="flex items-center justify-between group/preset hover:bg-slate-800 rounded px-2">
@@ -1489,6 +2601,7 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                                         className="flex-1 text-left py-2 text-xs text-slate-300"
                                     >
                                         {p.name}
+                                        {p.lut && <span className="ml-1 text-[9px] text-amber-500">LUT</span>}
                                     </button>
                                     <button 
                                         onClick={(e) => deletePreset(p.id, e)}
@@ -1510,17 +2623,48 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
         </div>
         
         {/* CHRONOSPHERE (HISTORY STRIP) */}
-        {history.length > 0 && (
-            <div className="mt-4 flex gap-2 overflow-x-auto py-2 px-1 custom-scrollbar animate-fade-in">
-                {history.map((img, idx) => (
-                    <button 
-                        key={img.id}
-                        onClick={() => jumpToHistory(idx)}
-                        className={`relative flex-shrink-0 w-16 h-16 rounded-md overflow-hidden border transition-all ${historyIndex === idx ? 'border-cyan-500 ring-2 ring-cyan-500/30' : 'border-slate-700 hover:border-slate-500 opacity-60 hover:opacity-100'}`}
+        {historyBranch.length > 0 && (
+            <div className="mt-4 animate-fade-in">
+                <div className="flex gap-2 overflow-x-auto py-2 px-1 custom-scrollbar items-start">
+                    <button
+                        onClick={() => setShowHistoryGraph(prev => !prev)}
+                        className={`flex-shrink-0 w-10 h-16 rounded-md border flex flex-col items-center justify-center gap-1 text-[8px] font-mono uppercase transition-colors ${showHistoryGraph ? 'bg-cyan-900 text-cyan-200 border-cyan-500' : 'border-slate-700 text-slate-500 hover:text-white'}`}
+                        title={showHistoryGraph ? 'Hide history graph' : 'Show every branch'}
                     >
-                        <img src={`data:${img.mimeType};base64,${img.base64}`} alt="" className="w-full h-full object-cover" />
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3m3 3a3 3 0 01-3-3" /></svg>
+                        {historyNodeCount}
                     </button>
-                ))}
+                    {historyBranch.map(({ image: img }) => {
+                        const siblings = getSiblingIds(historyTree, img.id);
+                        return (
+                            <div key={img.id} className="group relative flex-shrink-0 w-16">
+                                <button 
+                                    onClick={() => jumpToHistory(img.id)}
+                                    title={img.regions?.map(r => `${r.id}: ${r.instruction}`).join('\n') || img.instruction || img.prompt}
+                                    className={`relative block w-16 h-16 rounded-md overflow-hidden border transition-all ${historyTree.currentId === img.id ? 'border-cyan-500 ring-2 ring-cyan-500/30' : 'border-slate-700 hover:border-slate-500 opacity-60 hover:opacity-100'}`}
+                                >
+                                    <HistoryThumbnail image={img} className="w-full h-full object-cover" />
+                                    {img.regions && img.regions.length > 0 && (
+                                        <span className="absolute bottom-0.5 right-0.5 bg-cyan-500 text-slate-950 text-[8px] font-bold px-1 rounded">{img.regions.length}R</span>
+                                    )}
+                                </button>
+                                {/* Sibling indicator: other branches split off at this step */}
+                                {siblings.length > 1 && (
+                                    <div className="mt-1 flex items-center justify-between text-[8px] font-mono text-amber-400">
+                                        <button onClick={() => switchHistoryBranch(img.id, -1)} className="px-1 hover:text-white" title="Previous branch">‹</button>
+                                        <span title={`${siblings.length} branches at this step`}>{siblings.indexOf(img.id) + 1}/{siblings.length}</span>
+                                        <button onClick={() => switchHistoryBranch(img.id, 1)} className="px-1 hover:text-white" title="Next branch">›</button>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+                {showHistoryGraph && (
+                    <div className="mt-2 p-3 rounded-lg border border-white/10 bg-slate-900/90">
+                        <HistoryGraph tree={historyTree} onSelect={jumpToHistory} />
+                    </div>
+                )}
             </div>
         )}
 
@@ -1528,10 +2672,35 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
         <div ref={scrollRef} className="mt-6 animate-slide-up relative z-20">
         <TiltPanel className={`glass-panel rounded-2xl border-white/10 overflow-hidden min-h-[500px] flex flex-col items-center justify-center relative transition-all duration-500 ${generatedImage ? 'bg-slate-950' : 'bg-slate-900/30'}`} intensity={0.5}>
             
-            {isLoading && <Loader />}
+            {isLoading && <Loader onCancel={cancelOperation} />}
+
+            {/* Batch Contact Sheet */}
+            {batchResults && !isLoading && !error && (
+                <div className="w-full p-6 animate-fade-in">
+                    <div className="flex justify-between items-center mb-4">
+                        <h3 className="text-xs font-bold tracking-widest uppercase text-cyan-400">Select Candidate ({batchResults.length})</h3>
+                        <button onClick={() => setBatchResults(null)} className="text-[10px] text-slate-500 hover:text-white font-mono uppercase tracking-widest">Discard</button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {batchResults.map((img, i) => (
+                            <button
+                                key={img.id}
+                                onClick={() => selectBatchResult(img)}
+                                className="relative group aspect-square rounded-lg overflow-hidden border border-white/10 hover:border-cyan-500 bg-black transition-all"
+                            >
+                                <img src={`data:${img.mimeType};base64,${img.base64}`} alt={`Candidate ${i + 1}`} className="w-full h-full object-contain" />
+                                <span className="absolute top-2 left-2 text-[10px] font-mono bg-black/70 text-cyan-300 px-2 py-0.5 rounded">#{i + 1}</span>
+                                <div className="absolute inset-0 bg-cyan-500/10 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                                    <span className="text-xs font-bold uppercase tracking-widest text-white bg-black/60 px-3 py-1 rounded">Select</span>
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
 
             {/* Empty State */}
-            {!generatedImage && !isLoading && !error && (
+            {!generatedImage && !batchResults && !isLoading && !error && (
               <div className="text-center space-y-4 opacity-30">
                  <div className="w-24 h-24 border-2 border-dashed border-slate-500 rounded-full mx-auto flex items-center justify-center animate-[spin_20s_linear_infinite]">
                     <div className="w-2 h-2 bg-slate-500 rounded-full"></div>
@@ -1546,13 +2715,92 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                    <div className="text-red-500 text-4xl mb-4">⚠</div>
                    <h3 className="text-red-400 font-bold tracking-widest uppercase mb-2">System Error</h3>
                    <p className="text-red-300/70 font-mono text-sm mb-6">{error}</p>
+
+                   {failure?.modelText && (
+                       <p className="text-amber-300/80 font-mono text-xs mb-6 border border-amber-500/30 bg-amber-950/20 rounded px-3 py-2">MODEL RESPONSE: {failure.modelText}</p>
+                   )}
+
+                   {failure && (
+                       <div className="flex gap-3 mb-4">
+                           <button
+                               onClick={handleRecovery}
+                               disabled={!!failure.retryAt && failure.retryAt > clock}
+                               className="px-4 py-2 bg-red-600/80 hover:bg-red-500 text-white font-bold rounded text-xs uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed"
+                           >
+                               {failure.recovery === 'reauth' ? 'Re-Authorize'
+                                   : failure.recovery === 'revise' ? 'Revise Directive'
+                                   : failure.recovery === 'switch_model' ? 'Switch Model'
+                                   : failure.retryAt && failure.retryAt > clock ? `Retry in ${Math.ceil((failure.retryAt - clock) / 1000)}s`
+                                   : 'Retry'}
+                           </button>
+                           <button onClick={clearError} className="px-4 py-2 text-slate-400 hover:text-white text-xs uppercase tracking-widest">Dismiss</button>
+                       </div>
+                   )}
+
+                   {failure && (
+                       <div className="w-full">
+                           <button onClick={() => setShowFailureDetail(!showFailureDetail)} className="text-[10px] text-slate-500 hover:text-slate-300 font-mono uppercase tracking-widest">
+                               {showFailureDetail ? '[-] Hide Diagnostics' : '[+] Show Diagnostics'}
+                           </button>
+                           {showFailureDetail && (
+                               <pre className="mt-2 text-left text-[10px] text-slate-400 font-mono bg-black/40 border border-white/5 rounded p-3 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">{failure.stage}: {failure.detail}</pre>
+                           )}
+                       </div>
+                   )}
                 </div>
             )}
 
             {/* Image Display */}
-            {generatedImage && !isLoading && !error && (
+            {generatedImage && !batchResults && !isLoading && !error && (
                 <div ref={imageWrapperRef} className="relative w-full h-full flex flex-col">
-                   {/* Main Canvas Wrapper - Updated for Pointer Events */}
+                   {isCropMode ? (
+                   /* Crop Stage: transformed frame with a draggable crop box */
+                   <div className="relative w-full flex-1 overflow-hidden flex items-center justify-center bg-slate-950 p-8 touch-none select-none">
+                       {cropPreview ? (
+                           <div className="relative w-fit mx-auto">
+                               <img
+                                   ref={cropImageRef}
+                                   src={`data:image/png;base64,${cropPreview.base64}`}
+                                   alt="Crop preview"
+                                   className="max-w-full max-h-[70vh] object-contain pointer-events-none"
+                               />
+                               {/* Dim outside the crop */}
+                               <div
+                                   className="absolute border border-white cursor-move shadow-[0_0_0_9999px_rgba(2,6,23,0.7)]"
+                                   style={{ left: `${cropBox.x}%`, top: `${cropBox.y}%`, width: `${cropBox.w}%`, height: `${cropBox.h}%` }}
+                                   onPointerDown={handleCropPointerDown('move')}
+                                   onPointerMove={handleCropPointerMove}
+                                   onPointerUp={handleCropPointerUp}
+                               >
+                                   {/* Rule of thirds */}
+                                   <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+                                       {Array.from({ length: 9 }).map((_, i) => <div key={i} className="border border-white/15" />)}
+                                   </div>
+                                   {(['nw', 'ne', 'sw', 'se', ...(getCropLockRatio() ? [] : ['n', 's', 'e', 'w'])] as CropHandle[]).map(handle => (
+                                       <div
+                                           key={handle}
+                                           onPointerDown={handleCropPointerDown(handle)}
+                                           onPointerMove={handleCropPointerMove}
+                                           onPointerUp={handleCropPointerUp}
+                                           className="absolute w-3 h-3 bg-cyan-400 border border-slate-950 -translate-x-1/2 -translate-y-1/2"
+                                           style={{
+                                               left: handle.includes('w') ? '0%' : handle.includes('e') ? '100%' : '50%',
+                                               top: handle.includes('n') ? '0%' : handle.includes('s') ? '100%' : '50%',
+                                               cursor: `${handle}-resize`
+                                           }}
+                                       />
+                                   ))}
+                                   <div className="absolute -bottom-6 left-0 text-[10px] font-mono text-cyan-300 whitespace-nowrap pointer-events-none">
+                                       {Math.round(cropBox.w / 100 * cropPreview.width)} × {Math.round(cropBox.h / 100 * cropPreview.height)} PX
+                                   </div>
+                               </div>
+                           </div>
+                       ) : (
+                           <span className="text-xs font-mono text-slate-500 uppercase tracking-widest">Rendering frame...</span>
+                       )}
+                   </div>
+                   ) : (
+                   /* Main Canvas Wrapper - Updated for Pointer Events */
                    <div 
                        className="relative w-full flex-1 overflow-hidden flex items-center justify-center bg-slate-950 p-4 touch-none"
                        onPointerDown={handlePointerDown}
@@ -1561,8 +2809,14 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                        onPointerLeave={handlePointerUp}
                        style={{ cursor: isTargetMode ? 'crosshair' : isPanning ? 'grabbing' : 'grab' }}
                    >
+                       {/* Final Pixel Dimensions */}
+                       {imageDims && (
+                           <div className="absolute bottom-2 right-2 z-30 pointer-events-none bg-black/70 border border-white/10 rounded px-2 py-0.5 text-[10px] font-mono text-slate-300">
+                               {imageDims.width} × {imageDims.height} PX
+                           </div>
+                       )}
                        <div 
-                           className={`relative shadow-2xl transition-transform duration-75 ease-out w-fit mx-auto ${animateImage ? 'animate-scan' : ''}`}
+                           className={`relative group/canvas shadow-2xl transition-transform duration-75 ease-out w-fit mx-auto ${animateImage ? 'animate-scan' : ''}`}
                            style={{ 
                                transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
                                transformOrigin: 'center center'
@@ -1573,8 +2827,63 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                                src={`data:${generatedImage.mimeType};base64,${generatedImage.base64}`} 
                                alt="Generated" 
                                className="max-w-full max-h-[70vh] object-contain select-none pointer-events-none border border-white/10"
+                               onLoad={(e) => setImageDims({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
                            />
+
+                           {/* Adjustment Preview (drawn over the saved render so pixel dimensions stay accurate) */}
+                           {adjustmentPreview && (
+                               <img
+                                   src={`data:image/png;base64,${adjustmentPreview}`}
+                                   alt="Adjustment preview"
+                                   className="absolute inset-0 w-full h-full object-contain select-none pointer-events-none border border-cyan-500/40"
+                               />
+                           )}
                            
+                           {/* Painted Mask Overlay */}
+                           {isTargetMode && (
+                               <canvas ref={maskOverlayRef} className="absolute inset-0 w-full h-full z-10 pointer-events-none" />
+                           )}
+
+                           {/* Lasso Preview */}
+                           {isTargetMode && lassoPoints.length > 1 && (
+                               <svg className="absolute inset-0 w-full h-full z-10 pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                                   <polygon
+                                       points={lassoPoints.map(p => `${p.x},${p.y}`).join(' ')}
+                                       fill="rgba(6,182,212,0.2)"
+                                       stroke="#06b6d4"
+                                       strokeWidth={1.5}
+                                       strokeDasharray="4 3"
+                                       vectorEffect="non-scaling-stroke"
+                                   />
+                               </svg>
+                           )}
+
+                           {/* Region Overlays: pinned regions while targeting, recorded regions on hover afterwards */}
+                           {(isTargetMode ? editRegions : generatedImage.regions || []).map(region => (
+                               <div
+                                   key={region.id}
+                                   className={`absolute border-2 border-dashed border-cyan-400 z-10 pointer-events-none ${isTargetMode ? 'bg-cyan-500/10' : 'opacity-0 group-hover/canvas:opacity-70 transition-opacity'}`}
+                                   style={{ left: `${region.box.x}%`, top: `${region.box.y}%`, width: `${region.box.w}%`, height: `${region.box.h}%` }}
+                                   title={region.instruction}
+                               >
+                                   <div className="absolute -top-5 left-0 bg-cyan-400 text-black text-[10px] font-bold px-1">{region.id}</div>
+                               </div>
+                           ))}
+
+                           {/* Detected Object Overlays (clickable) */}
+                           {detectedObjects.map((object, i) => (
+                               <button
+                                   key={`${object.label}_${i}`}
+                                   onPointerDown={(e) => e.stopPropagation()}
+                                   onClick={() => selectDetectedObject(object)}
+                                   className="absolute z-20 border border-amber-400/70 hover:border-amber-300 hover:bg-amber-400/15 transition-colors"
+                                   style={{ left: `${object.box.x}%`, top: `${object.box.y}%`, width: `${object.box.w}%`, height: `${object.box.h}%` }}
+                                   title={`Select ${object.label}`}
+                               >
+                                   <span className="absolute -top-5 left-0 bg-amber-400 text-black text-[10px] font-bold px-1 whitespace-nowrap">{object.label}</span>
+                               </button>
+                           ))}
+
                            {/* Selection Box Overlay */}
                            {isTargetMode && selectionBox && (
                                <div 
@@ -1591,13 +2900,72 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                            )}
                        </div>
                    </div>
+                   )}
+
+                   {/* Crop Panel */}
+                   {isCropMode && (
+                       <div className="w-full bg-slate-900/90 border-t border-white/10 p-4 flex flex-wrap items-end gap-4 animate-fade-in">
+                           <div className="space-y-1">
+                               <label className="text-[10px] uppercase text-slate-500">Rotate</label>
+                               <div className="flex gap-1">
+                                   <button onClick={() => setCropTransform(t => ({ ...t, quarterTurns: (t.quarterTurns + 3) % 4 }))} className="px-3 py-1.5 bg-slate-800 border border-slate-600 rounded text-xs hover:bg-slate-700" title="Rotate 90° counter-clockwise">⟲ 90°</button>
+                                   <button onClick={() => setCropTransform(t => ({ ...t, quarterTurns: (t.quarterTurns + 1) % 4 }))} className="px-3 py-1.5 bg-slate-800 border border-slate-600 rounded text-xs hover:bg-slate-700" title="Rotate 90° clockwise">⟳ 90°</button>
+                               </div>
+                           </div>
+                           <div className="space-y-1 w-40">
+                               <label className="text-[10px] uppercase text-slate-500 flex justify-between">Angle<span className="text-cyan-500">{cropTransform.angle.toFixed(1)}°</span></label>
+                               <input
+                                   type="range" min={-45} max={45} step={0.5}
+                                   value={cropTransform.angle}
+                                   onChange={(e) => setCropTransform(t => ({ ...t, angle: Number(e.target.value) }))}
+                                   className="w-full accent-cyan-500 h-1 bg-slate-700 rounded cursor-pointer"
+                               />
+                           </div>
+                           <div className="flex gap-1">
+                               <button onClick={() => setCropTransform(t => ({ ...t, straighten: !t.straighten }))} className={`px-3 py-1.5 rounded text-[10px] font-bold uppercase tracking-widest border ${cropTransform.straighten ? 'bg-cyan-500 text-slate-950 border-cyan-400' : 'bg-slate-800 text-slate-400 border-slate-700'}`} title="Trim empty corners after a free rotation">Straighten</button>
+                               <button onClick={() => setCropTransform(t => ({ ...t, flipH: !t.flipH }))} className={`px-3 py-1.5 rounded text-[10px] font-bold uppercase tracking-widest border ${cropTransform.flipH ? 'bg-cyan-500 text-slate-950 border-cyan-400' : 'bg-slate-800 text-slate-400 border-slate-700'}`}>Flip H</button>
+                               <button onClick={() => setCropTransform(t => ({ ...t, flipV: !t.flipV }))} className={`px-3 py-1.5 rounded text-[10px] font-bold uppercase tracking-widest border ${cropTransform.flipV ? 'bg-cyan-500 text-slate-950 border-cyan-400' : 'bg-slate-800 text-slate-400 border-slate-700'}`}>Flip V</button>
+                           </div>
+                           <div className="space-y-1">
+                               <label className="text-[10px] uppercase text-slate-500">Ratio Lock</label>
+                               <div className="flex gap-1">
+                                   <select
+                                       value={cropRatio}
+                                       onChange={(e) => setCropRatio(e.target.value)}
+                                       className="bg-slate-800/50 border border-slate-700 rounded px-2 py-1.5 text-xs font-mono text-cyan-100 outline-none focus:border-cyan-500"
+                                   >
+                                       <option value="free">Free</option>
+                                       <option value="original">Original</option>
+                                       {Object.values(AspectRatio).filter(r => r !== AspectRatio.CUSTOM).map(r => (
+                                           <option key={r} value={r}>{r}</option>
+                                       ))}
+                                       <option value="custom">Custom</option>
+                                   </select>
+                                   {cropRatio === 'custom' && (
+                                       <input
+                                           type="text"
+                                           value={cropCustomRatio}
+                                           onChange={(e) => setCropCustomRatio(e.target.value)}
+                                           className="w-20 bg-slate-800/50 border border-slate-700 rounded px-2 py-1.5 text-xs font-mono text-white focus:border-cyan-500 outline-none"
+                                           placeholder="21:9"
+                                       />
+                                   )}
+                               </div>
+                           </div>
+                           <div className="flex gap-2 ml-auto">
+                               <button onClick={() => { setCropTransform(IDENTITY_TRANSFORM); resetCropBox(); }} className="px-3 py-1.5 text-slate-400 hover:text-white text-xs uppercase tracking-widest">Reset</button>
+                               <button onClick={toggleCropMode} className="px-3 py-1.5 text-slate-400 hover:text-white text-xs uppercase tracking-widest">Cancel</button>
+                               <button onClick={applyCrop} disabled={!cropPreview} className="px-4 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white text-xs rounded disabled:opacity-40">Apply</button>
+                           </div>
+                       </div>
+                   )}
 
                    {/* Refinement Toolbar */}
                    <div className="w-full bg-slate-900/80 backdrop-blur-md border-t border-white/10 p-4 flex flex-col md:flex-row items-center gap-4">
                        {/* History Controls */}
                        <div className="flex items-center gap-2">
-                           <button onClick={handleUndo} disabled={historyIndex <= 0} className="p-2 hover:bg-white/10 rounded disabled:opacity-30 transition-colors"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg></button>
-                           <button onClick={handleRedo} disabled={historyIndex >= history.length - 1} className="p-2 hover:bg-white/10 rounded disabled:opacity-30 transition-colors"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10h-10a8 8 0 00-8 8v2M21 10l-6 6m6-6l-6-6" /></svg></button>
+                           <button onClick={handleUndo} disabled={!undoTarget} className="p-2 hover:bg-white/10 rounded disabled:opacity-30 transition-colors"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg></button>
+                           <button onClick={handleRedo} disabled={!redoTarget} className="p-2 hover:bg-white/10 rounded disabled:opacity-30 transition-colors"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10h-10a8 8 0 00-8 8v2M21 10l-6 6m6-6l-6-6" /></svg></button>
                        </div>
                        
                        {/* Select Area Button (Relocated) */}
@@ -1608,6 +2976,14 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                            {isTargetMode ? 'Stop Selecting' : 'Select Area'}
                        </MagneticButton>
 
+                       <button
+                           onClick={() => detectedObjects.length ? setDetectedObjects([]) : handleDetectObjects()}
+                           disabled={isDetecting || isLoading}
+                           className={`px-3 py-2 rounded text-xs font-bold uppercase tracking-wider border transition-all disabled:opacity-50 ${detectedObjects.length ? 'bg-amber-500 text-slate-950 border-amber-400' : 'bg-slate-800 text-slate-400 border-slate-700 hover:border-amber-500'}`}
+                       >
+                           {isDetecting ? 'Scanning...' : detectedObjects.length ? 'Hide Objects' : 'Detect Objects'}
+                       </button>
+
                        {/* Edit Input */}
                        <div className="flex-1 w-full relative">
                            <input 
@@ -1620,7 +2996,7 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                            />
                            <button 
                                onClick={handleEdit}
-                               disabled={!editPrompt.trim()}
+                               disabled={!editPrompt.trim() && !editRegions.some(r => r.instruction.trim())}
                                className="absolute right-2 top-1/2 -translate-y-1/2 text-cyan-500 hover:text-cyan-300 disabled:opacity-30"
                            >
                                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
@@ -1629,7 +3005,9 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
 
                        {/* Tools */}
                        <div className="flex gap-2">
-                           <button onClick={handleOutpaint} className="px-3 py-2 bg-slate-800 border border-slate-600 rounded text-xs hover:bg-slate-700 hover:text-white transition-colors">Extend</button>
+                           <button onClick={() => setShowOutpaint(!showOutpaint)} className={`px-3 py-2 border border-slate-600 rounded text-xs transition-colors ${showOutpaint ? 'bg-cyan-900 text-cyan-200 border-cyan-500' : 'bg-slate-800 hover:bg-slate-700 hover:text-white'}`}>Extend</button>
+                           <button onClick={toggleCropMode} className={`px-3 py-2 border border-slate-600 rounded text-xs transition-colors ${isCropMode ? 'bg-cyan-900 text-cyan-200 border-cyan-500' : 'bg-slate-800 hover:bg-slate-700'}`}>Crop</button>
+                           <button onClick={() => setShowRedact(!showRedact)} className={`px-3 py-2 border border-slate-600 rounded text-xs transition-colors ${showRedact ? 'bg-cyan-900 text-cyan-200 border-cyan-500' : 'bg-slate-800 hover:bg-slate-700'}`}>Redact</button>
                            <button onClick={() => setShowFilters(!showFilters)} className={`px-3 py-2 border border-slate-600 rounded text-xs transition-colors ${showFilters ? 'bg-cyan-900 text-cyan-200 border-cyan-500' : 'bg-slate-800 hover:bg-slate-700'}`}>Filters</button>
                            <button 
                             onClick={() => setShowDownloadConfirm(true)}
@@ -1640,42 +3018,259 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                        </div>
                    </div>
                    
-                   {/* Filter Panel */}
-                   {showFilters && (
-                       <div className="w-full bg-slate-900/90 border-t border-white/10 p-4 grid grid-cols-2 md:grid-cols-6 gap-4 animate-fade-in">
-                           {Object.entries(adjustments).map(([key, val]) => (
-                               <div key={key} className="space-y-1">
-                                   <label className="text-[10px] uppercase text-slate-500">{key}</label>
-                                   <input 
-                                       type="range" 
-                                       min={key === 'blur' ? 0 : 0} 
-                                       max={key === 'blur' ? 20 : 200} 
-                                       value={val}
-                                       onChange={(e) => setAdjustments(prev => ({ ...prev, [key]: Number(e.target.value) }))}
-                                       className="w-full accent-cyan-500 h-1 bg-slate-700 rounded cursor-pointer"
+                   {/* Mask Toolbar */}
+                   {isTargetMode && (
+                       <div className="w-full bg-slate-900/90 border-t border-white/10 px-4 py-3 flex flex-wrap items-center gap-4 animate-fade-in">
+                           <div className="flex gap-1">
+                               {(['box', 'brush', 'eraser', 'lasso'] as MaskTool[]).map(tool => (
+                                   <button
+                                       key={tool}
+                                       onClick={() => setMaskTool(tool)}
+                                       className={`px-3 py-1.5 rounded text-[10px] font-bold uppercase tracking-widest border transition-all ${maskTool === tool ? 'bg-cyan-500 text-slate-950 border-cyan-400' : 'bg-slate-800 text-slate-400 border-slate-700 hover:border-cyan-500'}`}
+                                   >
+                                       {tool}
+                                   </button>
+                               ))}
+                           </div>
+
+                           {(maskTool === 'brush' || maskTool === 'eraser') && (
+                               <>
+                                   <div className="flex items-center gap-2">
+                                       <label className="text-[10px] uppercase text-slate-500">Size</label>
+                                       <input type="range" min={1} max={30} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-24 accent-cyan-500 h-1 bg-slate-700 rounded cursor-pointer" />
+                                   </div>
+                                   <div className="flex items-center gap-2">
+                                       <label className="text-[10px] uppercase text-slate-500">Hardness</label>
+                                       <input type="range" min={0} max={100} value={brushHardness} onChange={(e) => setBrushHardness(Number(e.target.value))} className="w-24 accent-cyan-500 h-1 bg-slate-700 rounded cursor-pointer" />
+                                   </div>
+                               </>
+                           )}
+
+                           <div className="flex gap-2 ml-auto">
+                               <button onClick={invertMask} className="px-3 py-1.5 bg-slate-800 border border-slate-600 rounded text-[10px] uppercase tracking-widest hover:bg-slate-700">Invert</button>
+                               <button onClick={() => { clearMask(); setSelectionBox(null); setEditRegions([]); }} className="px-3 py-1.5 bg-slate-800 border border-slate-600 rounded text-[10px] uppercase tracking-widest hover:bg-slate-700">Clear</button>
+                           </div>
+                           {editRegions.length > 0 && (
+                               <div className="w-full space-y-2">
+                                   {editRegions.map(region => (
+                                       <div key={region.id} className="flex items-center gap-2">
+                                           <span className="w-6 h-6 shrink-0 flex items-center justify-center rounded bg-cyan-500 text-slate-950 text-[10px] font-bold">{region.id}</span>
+                                           <input
+                                               type="text"
+                                               value={region.instruction}
+                                               onChange={(e) => setEditRegions(prev => prev.map(r => r.id === region.id ? { ...r, instruction: e.target.value } : r))}
+                                               onKeyDown={(e) => e.key === 'Enter' && handleEdit()}
+                                               placeholder={editPrompt.trim() ? `Uses main instruction: "${editPrompt.trim()}"` : 'Describe change for this region...'}
+                                               className="flex-1 bg-slate-800/50 border border-slate-700 rounded px-3 py-1.5 text-xs text-white focus:border-cyan-500 outline-none"
+                                           />
+                                           <button
+                                               onClick={() => setEditRegions(prev => prev.filter(r => r.id !== region.id).map((r, i) => ({ ...r, id: i + 1 })))}
+                                               className="text-slate-500 hover:text-red-400 px-2"
+                                               title="Remove region"
+                                           >&times;</button>
+                                       </div>
+                                   ))}
+                               </div>
+                           )}
+                           <span className="w-full text-[10px] font-mono text-slate-500">
+                               {editRegions.length > 0 ? `${editRegions.length} REGION(S) ACTIVE` : hasPaintedMask ? 'PAINTED MASK ACTIVE' : selectionBox ? 'BOX SELECTION ACTIVE' : 'NO MASK'}
+                               {editRegions.length > 0 && hasPaintedMask && <span className="text-amber-400"> // PAINTED MASK IGNORED WHILE REGIONS EXIST</span>} // ALT+DRAG OR MIDDLE BUTTON TO PAN
+                           </span>
+                       </div>
+                   )}
+
+                   {/* Outpaint Panel */}
+                   {showOutpaint && (
+                       <div className="w-full bg-slate-900/90 border-t border-white/10 p-4 flex flex-wrap items-end gap-4 animate-fade-in">
+                           <div className="space-y-1">
+                               <label className="text-[10px] uppercase text-slate-500">Mode</label>
+                               <div className="flex gap-1">
+                                   {(['sides', 'ratio'] as const).map(mode => (
+                                       <button
+                                           key={mode}
+                                           onClick={() => setOutpaintMode(mode)}
+                                           className={`px-3 py-1.5 rounded text-[10px] font-bold uppercase tracking-widest border transition-all ${outpaintMode === mode ? 'bg-cyan-500 text-slate-950 border-cyan-400' : 'bg-slate-800 text-slate-400 border-slate-700 hover:border-cyan-500'}`}
+                                       >
+                                           {mode === 'sides' ? 'Per Side' : 'To Ratio'}
+                                       </button>
+                                   ))}
+                               </div>
+                           </div>
+                           {outpaintMode === 'sides' ? (
+                               (['left', 'right', 'top', 'bottom'] as (keyof OutpaintExtents)[]).map(side => (
+                                   <div key={side} className="space-y-1 w-24">
+                                       <label className="text-[10px] uppercase text-slate-500 flex justify-between">{side}<span className="text-cyan-500">{Math.round(outpaintExtents[side] * 100)}%</span></label>
+                                       <input
+                                           type="range" min={0} max={100} step={5}
+                                           value={Math.round(outpaintExtents[side] * 100)}
+                                           onChange={(e) => setOutpaintExtents(prev => ({ ...prev, [side]: Number(e.target.value) / 100 }))}
+                                           className="w-full accent-cyan-500 h-1 bg-slate-700 rounded cursor-pointer"
+                                       />
+                                   </div>
+                               ))
+                           ) : (
+                               <div className="space-y-1 w-28">
+                                   <label className="text-[10px] uppercase text-slate-500">Target Ratio</label>
+                                   <input
+                                       type="text"
+                                       value={outpaintRatio}
+                                       onChange={(e) => setOutpaintRatio(e.target.value)}
+                                       placeholder="e.g. 21:9"
+                                       className="w-full bg-slate-800/50 border border-slate-700 rounded px-3 py-1.5 text-xs font-mono text-white focus:border-cyan-500 outline-none"
                                    />
                                </div>
-                           ))}
-                           <div className="flex items-end">
-                               <button 
-                                   onClick={async () => {
-                                       if(!generatedImage) return;
-                                       // USE CLEAN SOURCE
-                                       const source = generatedImage.cleanBase64 || generatedImage.base64;
-                                       const filteredClean = await applyImageAdjustments(source, adjustments);
-                                       
-                                       // Re-apply watermark
-                                       const watermarked = await applyWatermark(filteredClean);
-                                       updateHistory({ 
-                                           ...generatedImage, 
-                                           id: Date.now().toString(), 
-                                           base64: watermarked, 
-                                           cleanBase64: filteredClean,
-                                           timestamp: Date.now() 
-                                       });
-                                   }}
-                                   className="w-full py-1 bg-cyan-600 text-white text-xs rounded"
-                               >Apply</button>
+                           )}
+                           <div className="space-y-1 flex-1 min-w-[200px]">
+                               <label className="text-[10px] uppercase text-slate-500">Add In New Area (Optional)</label>
+                               <input
+                                   type="text"
+                                   value={outpaintPrompt}
+                                   onChange={(e) => setOutpaintPrompt(e.target.value)}
+                                   onKeyDown={(e) => e.key === 'Enter' && handleOutpaint()}
+                                   placeholder="a lighthouse on the far cliff..."
+                                   className="w-full bg-slate-800/50 border border-slate-700 rounded px-3 py-1.5 text-xs text-white focus:border-cyan-500 outline-none"
+                               />
+                           </div>
+                           <button onClick={() => handleOutpaint()} className="px-4 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white text-xs rounded">Extend</button>
+                       </div>
+                   )}
+
+                   {/* Redact Panel */}
+                   {showRedact && (
+                       <div className="w-full bg-slate-900/90 border-t border-white/10 p-4 flex flex-wrap items-end gap-4 animate-fade-in">
+                           <div className="space-y-1">
+                               <label className="text-[10px] uppercase text-slate-500">Mode</label>
+                               <div className="flex gap-1">
+                                   {(['blur', 'pixelate', 'bar'] as RedactMode[]).map(mode => (
+                                       <button
+                                           key={mode}
+                                           onClick={() => setRedactMode(mode)}
+                                           className={`px-3 py-1.5 rounded text-[10px] font-bold uppercase tracking-widest border transition-all ${redactMode === mode ? 'bg-cyan-500 text-slate-950 border-cyan-400' : 'bg-slate-800 text-slate-400 border-slate-700 hover:border-cyan-500'}`}
+                                       >
+                                           {mode === 'bar' ? 'Black Bar' : mode}
+                                       </button>
+                                   ))}
+                               </div>
+                           </div>
+                           {redactMode !== 'bar' && (
+                               <div className="space-y-1 w-32">
+                                   <label className="text-[10px] uppercase text-slate-500">Intensity</label>
+                                   <input type="range" min={1} max={20} value={redactIntensity} onChange={(e) => setRedactIntensity(Number(e.target.value))} className="w-full accent-cyan-500 h-1 bg-slate-700 rounded cursor-pointer" />
+                               </div>
+                           )}
+                           <div className="space-y-1 w-32">
+                               <label className="text-[10px] uppercase text-slate-500">Feather</label>
+                               <input type="range" min={0} max={40} value={redactFeather} onChange={(e) => setRedactFeather(Number(e.target.value))} className="w-full accent-cyan-500 h-1 bg-slate-700 rounded cursor-pointer" />
+                           </div>
+                           <span className="flex-1 text-[10px] font-mono text-slate-500">
+                               {editRegions.length + (selectionBox ? 1 : 0) > 0
+                                   ? `${editRegions.length + (selectionBox ? 1 : 0)} AREA(S) TARGETED`
+                                   : 'SELECT AREA OR DETECT OBJECTS TO TARGET'}
+                           </span>
+                           <button
+                               onClick={handleRedact}
+                               disabled={editRegions.length === 0 && !selectionBox}
+                               className="px-4 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white text-xs rounded disabled:opacity-40"
+                           >Apply</button>
+                       </div>
+                   )}
+
+                   {/* Filter Panel: ordered adjustment stack, previewed live and rendered from the clean source */}
+                   {showFilters && (
+                       <div className="w-full bg-slate-900/90 border-t border-white/10 p-4 flex flex-col md:flex-row gap-4 animate-fade-in">
+                           <div className="flex-shrink-0 space-y-1">
+                               <label className="text-[10px] uppercase text-slate-500">Histogram</label>
+                               <Histogram histogram={histogram} />
+                           </div>
+                           <div className="flex-1 space-y-3">
+                               {adjustmentStack.length === 0 && (
+                                   <p className="text-[10px] font-mono text-slate-500">NO ADJUSTMENTS. ADD AN OPERATION TO BUILD THE STACK.</p>
+                               )}
+                               {adjustmentStack.map((op, index) => {
+                                   const effect = getImageEffect(op.type);
+                                   return (
+                                       <div key={op.id} className={`flex flex-wrap items-center gap-3 ${op.enabled ? '' : 'opacity-40'}`}>
+                                           <span className="w-4 text-[10px] font-mono text-slate-500">{index + 1}</span>
+                                           <button
+                                               onClick={() => updateAdjustment(op.id, { enabled: !op.enabled })}
+                                               className={`px-2 py-0.5 border rounded text-[10px] uppercase ${op.enabled ? 'bg-cyan-900 text-cyan-200 border-cyan-500' : 'border-slate-600 text-slate-400'}`}
+                                               title={op.enabled ? 'Disable' : 'Enable'}
+                                           >{op.enabled ? 'On' : 'Off'}</button>
+                                           <span className="w-20 text-[10px] uppercase text-slate-400">{effect?.label ?? op.type}</span>
+                                           {op.type === 'lut' && (
+                                               <select
+                                                   value={op.lutId ?? ''}
+                                                   onChange={(e) => updateAdjustment(op.id, { lutId: e.target.value || undefined })}
+                                                   className={`bg-slate-800 border rounded text-xs px-2 py-1 max-w-[10rem] ${op.lutId && !lutLibrary.some(l => l.id === op.lutId) ? 'border-red-500' : 'border-slate-600'}`}
+                                                   title={op.lutId && !lutLibrary.some(l => l.id === op.lutId) ? 'LUT missing from library' : undefined}
+                                               >
+                                                   <option value="">Select LUT...</option>
+                                                   {lutLibrary.map(lut => <option key={lut.id} value={lut.id}>{lut.name}</option>)}
+                                               </select>
+                                           )}
+                                           {effect?.params.map(param => (
+                                               <div key={param.key} className="flex items-center gap-2 flex-1 min-w-[8rem]">
+                                                   {effect.params.length > 1 && <label className="text-[10px] uppercase text-slate-500">{param.label}</label>}
+                                                   <input
+                                                       type="range"
+                                                       min={param.min}
+                                                       max={param.max}
+                                                       step={param.step}
+                                                       value={op.params[param.key] ?? param.defaultValue}
+                                                       onChange={(e) => setAdjustmentParam(op.id, param.key, Number(e.target.value))}
+                                                       className="w-full accent-cyan-500 h-1 bg-slate-700 rounded cursor-pointer"
+                                                   />
+                                                   <span className="w-8 text-right text-[10px] font-mono text-slate-500">{op.params[param.key] ?? param.defaultValue}</span>
+                                               </div>
+                                           ))}
+                                           <div className="flex gap-1">
+                                               <button onClick={() => moveAdjustment(index, -1)} disabled={index === 0} className="px-1.5 py-0.5 bg-slate-800 hover:bg-slate-700 rounded text-xs disabled:opacity-30" title="Move up">↑</button>
+                                               <button onClick={() => moveAdjustment(index, 1)} disabled={index === adjustmentStack.length - 1} className="px-1.5 py-0.5 bg-slate-800 hover:bg-slate-700 rounded text-xs disabled:opacity-30" title="Move down">↓</button>
+                                               <button onClick={() => removeAdjustment(op.id)} className="px-1.5 py-0.5 bg-slate-800 hover:bg-red-900 rounded text-xs" title="Remove">✕</button>
+                                           </div>
+                                       </div>
+                                   );
+                               })}
+                               <div className="flex items-center gap-3 pt-2 border-t border-white/5">
+                                   <select
+                                       value=""
+                                       onChange={(e) => { if (e.target.value) addAdjustment(e.target.value); }}
+                                       className="bg-slate-800 border border-slate-600 rounded text-xs px-2 py-1"
+                                   >
+                                       <option value="">+ Add operation</option>
+                                       {listImageEffects().map(effect => <option key={effect.id} value={effect.id}>{effect.label}</option>)}
+                                   </select>
+                                   <button
+                                       onClick={() => lutInputRef.current?.click()}
+                                       className="px-3 py-1.5 border border-slate-600 bg-slate-800 hover:bg-slate-700 text-xs rounded"
+                                   >Import .cube</button>
+                                   <input ref={lutInputRef} type="file" accept=".cube" onChange={handleLutImport} className="hidden" />
+                                   <span className="flex-1 text-[10px] font-mono text-slate-500">
+                                       {isAdjustmentDraftDirty ? 'PREVIEW // UNSAVED CHANGES' : 'STACK SAVED'}
+                                   </span>
+                                   <button
+                                       onClick={() => setAdjustmentStack(generatedImage.adjustments ?? [])}
+                                       disabled={!isAdjustmentDraftDirty}
+                                       className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-xs rounded disabled:opacity-40"
+                                   >Revert</button>
+                                   <button
+                                       onClick={applyAdjustmentStack}
+                                       disabled={!isAdjustmentDraftDirty || isRenderingAdjustments}
+                                       className="px-4 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white text-xs rounded disabled:opacity-40"
+                                   >{isRenderingAdjustments ? 'Rendering...' : 'Apply'}</button>
+                               </div>
+                               {lutLibrary.length > 0 && (
+                                   <div className="flex flex-wrap items-center gap-2">
+                                       <span className="text-[10px] uppercase text-slate-500">LUT Library</span>
+                                       {lutLibrary.map(lut => (
+                                           <span key={lut.id} className="flex items-center gap-1 px-2 py-0.5 bg-slate-800 border border-slate-700 rounded text-[10px] text-slate-300">
+                                               <button onClick={() => setAdjustmentStack(prev => [...prev, createLutAdjustment(lut.id, 100)])} title="Add to stack">{lut.name}</button>
+                                               <span className="text-slate-600">{lut.dimension}D/{lut.size}</span>
+                                               <button onClick={() => removeLutFromLibrary(lut.id)} className="text-red-500 hover:text-red-400" title="Delete from library">&times;</button>
+                                           </span>
+                                       ))}
+                                   </div>
+                               )}
                            </div>
                        </div>
                    )}
@@ -1809,32 +3404,365 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
       {/* GALLERY MODAL */}
       {showGallery && createPortal(
         <div className="fixed inset-0 z-40 bg-[#020617]/95 backdrop-blur-xl flex flex-col animate-fade-in">
-           <div className="p-6 flex justify-between items-center border-b border-white/10 bg-slate-900/50">
-              <h2 className="text-2xl font-bold text-white tracking-tighter"><span className="text-cyan-500">FLUX</span> ARCHIVE</h2>
-              <button onClick={() => setShowGallery(false)} className="p-2 rounded-full hover:bg-white/10 transition-colors">
-                  <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-              </button>
+           <div className="p-6 flex justify-between items-center gap-4 border-b border-white/10 bg-slate-900/50">
+              <div className="flex items-center gap-6">
+                  <h2 className="text-2xl font-bold text-white tracking-tighter"><span className="text-cyan-500">FLUX</span> ARCHIVE</h2>
+                  {storageUsage && (
+                      <div className="hidden md:block w-56 space-y-1" title={storageUsage.quota ? `Origin usage ${formatBytes(storageUsage.usage ?? 0)} of ${formatBytes(storageUsage.quota)}` : undefined}>
+                          <div className="flex justify-between text-[10px] font-mono text-slate-500 uppercase">
+                              <span>{storageUsage.items} assets // {formatBytes(storageUsage.galleryBytes)}</span>
+                              {storageUsage.quota && <span>{Math.round(((storageUsage.usage ?? 0) / storageUsage.quota) * 100)}%</span>}
+                          </div>
+                          {storageUsage.quota && (
+                              <div className="h-1 bg-slate-800 rounded overflow-hidden">
+                                  <div
+                                      className={`h-full ${(storageUsage.usage ?? 0) / storageUsage.quota > 0.8 ? 'bg-amber-500' : 'bg-cyan-500'}`}
+                                      style={{ width: `${Math.min(100, ((storageUsage.usage ?? 0) / storageUsage.quota) * 100)}%` }}
+                                  />
+                              </div>
+                          )}
+                      </div>
+                  )}
+              </div>
+              <div className="flex items-center gap-3">
+                  <input
+                      type="search"
+                      value={galleryQuery.text}
+                      onChange={(e) => updateGalleryQuery({ text: e.target.value })}
+                      placeholder="Search prompts, edits, tags..."
+                      className="w-48 md:w-72 bg-slate-800 border border-slate-700 rounded px-3 py-1.5 text-xs text-white focus:border-cyan-500 outline-none"
+                  />
+                  <select
+                      value={galleryQuery.sort}
+                      onChange={(e) => updateGalleryQuery({ sort: e.target.value as GallerySort })}
+                      className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-slate-300 uppercase focus:border-cyan-500 outline-none"
+                      title="Sort order"
+                  >
+                      <option value="newest">Newest</option>
+                      <option value="oldest">Oldest</option>
+                      <option value="prompt">Prompt A-Z</option>
+                      <option value="size">Largest</option>
+                  </select>
+                  <button onClick={() => setShowGallery(false)} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+                      <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+              </div>
+           </div>
+
+           {/* Filter bar */}
+           <div className="px-6 py-3 flex flex-wrap items-center gap-2 border-b border-white/5 bg-slate-900/30">
+               <select value={galleryQuery.model} onChange={(e) => updateGalleryQuery({ model: e.target.value })} className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-slate-300 uppercase focus:border-cyan-500 outline-none">
+                   <option value="">Any model</option>
+                   {galleryFacetValues.models.map(m => <option key={m} value={m}>{MODEL_LABELS[m as AIModel] ?? m}</option>)}
+               </select>
+               <select value={galleryQuery.aesthetic} onChange={(e) => updateGalleryQuery({ aesthetic: e.target.value })} className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-slate-300 uppercase focus:border-cyan-500 outline-none">
+                   <option value="">Any aesthetic</option>
+                   {galleryFacetValues.aesthetics.map(a => <option key={a} value={a}>{a}</option>)}
+               </select>
+               <select value={galleryQuery.aspectRatio} onChange={(e) => updateGalleryQuery({ aspectRatio: e.target.value })} className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-slate-300 uppercase focus:border-cyan-500 outline-none">
+                   <option value="">Any ratio</option>
+                   {galleryFacetValues.aspectRatios.map(r => <option key={r} value={r}>{r}</option>)}
+               </select>
+               <div className="flex items-center gap-1 text-[10px] font-mono text-slate-500 uppercase">
+                   <input type="date" value={galleryQuery.from ?? ''} onChange={(e) => updateGalleryQuery({ from: e.target.value || undefined })} className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-slate-300 uppercase focus:border-cyan-500 outline-none" title="From date" />
+                   <span>to</span>
+                   <input type="date" value={galleryQuery.to ?? ''} onChange={(e) => updateGalleryQuery({ to: e.target.value || undefined })} className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-slate-300 uppercase focus:border-cyan-500 outline-none" title="To date" />
+               </div>
+               <button
+                   onClick={() => updateGalleryQuery({ favoritesOnly: !galleryQuery.favoritesOnly })}
+                   className={`px-2 py-1 rounded border text-[10px] font-mono uppercase transition-colors ${galleryQuery.favoritesOnly ? 'bg-amber-900/60 text-amber-300 border-amber-500' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+               >
+                   ★ Favorites
+               </button>
+               {galleryFacetValues.tags.map(tag => (
+                   <button
+                       key={tag}
+                       onClick={() => toggleGalleryTagFilter(tag)}
+                       className={`px-2 py-1 rounded border text-[10px] font-mono transition-colors ${galleryQuery.tags.includes(tag) ? 'bg-cyan-900 text-cyan-200 border-cyan-500' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                   >
+                       #{tag}
+                   </button>
+               ))}
+               <div className="ml-auto flex items-center gap-3 text-[10px] font-mono text-slate-500 uppercase">
+                   <span>{visibleGallery.length} / {gallery.length}</span>
+                   {visibleGallery.length > 0 && (
+                       <button onClick={selectAllGallery} className="text-cyan-400 hover:text-white uppercase" title="Select every asset the current filters show">
+                           Select all
+                       </button>
+                   )}
+                   {isGalleryFiltered && (
+                       <button onClick={() => setGalleryQuery({ ...DEFAULT_GALLERY_QUERY, sort: galleryQuery.sort })} className="text-cyan-400 hover:text-white uppercase">
+                           Clear filters
+                       </button>
+                   )}
+               </div>
            </div>
-           
-           <div className="flex-1 overflow-y-auto p-6 grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
-               {gallery.length === 0 && (
+
+           <datalist id="gallery-tag-suggestions">
+               {galleryFacetValues.tags.map(tag => <option key={tag} value={tag} />)}
+           </datalist>
+
+           {/* Bulk actions */}
+           {bulkTargets.length > 0 && (
+               <div className="px-6 py-2 flex flex-wrap items-center gap-3 border-b border-cyan-900/50 bg-cyan-950/30 text-[10px] font-mono uppercase">
+                   <span className="text-cyan-300 font-bold">{bulkTargets.length} selected</span>
+                   <button onClick={clearGallerySelection} className="text-slate-400 hover:text-white uppercase">Clear</button>
+                   <span className="text-slate-700">|</span>
+                   <form onSubmit={(e) => { e.preventDefault(); bulkTagGallery(); }} className="flex items-center gap-2">
+                       <input
+                           type="text"
+                           value={bulkTagDraft}
+                           onChange={(e) => setBulkTagDraft(e.target.value)}
+                           placeholder="Tag selection..."
+                           list="gallery-tag-suggestions"
+                           className="w-32 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[10px] text-white normal-case focus:border-cyan-500 outline-none"
+                       />
+                       <button type="submit" disabled={isGalleryBusy || !bulkTagDraft.trim()} className="px-2 py-1 rounded border border-slate-700 text-slate-300 hover:text-white uppercase disabled:opacity-40">Tag</button>
+                   </form>
+                   <button
+                       onClick={exportGallerySelection}
+                       disabled={isGalleryBusy}
+                       className="px-3 py-1 rounded border border-cyan-700 text-cyan-300 hover:text-white uppercase disabled:opacity-40"
+                       title="Download the selection as a ZIP with manifest.json"
+                   >
+                       Export ZIP
+                   </button>
+                   <button
+                       onClick={() => confirmGalleryDelete ? bulkDeleteGallery() : setConfirmGalleryDelete(true)}
+                       disabled={isGalleryBusy}
+                       className={`px-3 py-1 rounded border uppercase disabled:opacity-40 ${confirmGalleryDelete ? 'bg-red-900/60 text-red-200 border-red-500' : 'border-red-900 text-red-400 hover:text-red-200'}`}
+                   >
+                       {confirmGalleryDelete ? `Confirm delete (${bulkTargets.length})` : 'Delete'}
+                   </button>
+                   {isGalleryBusy && <span className="text-slate-500 animate-pulse">Working...</span>}
+               </div>
+           )}
+
+           <div className="flex-1 flex min-h-0">
+           <div className="flex-1 overflow-y-auto p-6 grid select-none grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4 content-start">
+               {visibleGallery.length === 0 && (
                    <div className="col-span-full flex flex-col items-center justify-center text-slate-500 h-64 opacity-50">
                        <svg className="w-12 h-12 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
-                       <p>NO ASSETS IN ARCHIVE</p>
+                       <p>{isGalleryLoading ? 'READING ARCHIVE...' : gallery.length > 0 ? 'NO ASSETS MATCH FILTERS' : 'NO ASSETS IN ARCHIVE'}</p>
                    </div>
                )}
-               {gallery.map((img) => (
-                   <div key={img.id} className="group relative aspect-square rounded-lg overflow-hidden border border-white/5 hover:border-cyan-500/50 transition-all cursor-pointer" onClick={() => { setGeneratedImage(img); setShowGallery(false); }}>
-                       <img src={`data:${img.mimeType};base64,${img.base64}`} alt="" className="w-full h-full object-cover transition-transform group-hover:scale-110" />
-                       <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                           <span className="text-cyan-400 text-xs font-bold uppercase tracking-widest border border-cyan-500 px-3 py-1 rounded">LOAD</span>
-                       </div>
-                       <div className="absolute bottom-0 left-0 right-0 p-2 bg-black/80 text-[10px] text-slate-400 truncate">
-                           {new Date(img.timestamp).toLocaleTimeString()}
+               {visibleGallery.map((img) => (
+                   <div
+                       key={img.id}
+                       className={`group relative aspect-square rounded-lg overflow-hidden border transition-all cursor-pointer ${gallerySelection.includes(img.id) ? 'border-cyan-500 ring-1 ring-cyan-500' : 'border-white/5 hover:border-cyan-500/50'}`}
+                       onClick={(e) => selectGalleryEntry(img, e)}
+                       onDoubleClick={() => openGalleryEntry(img)}
+                       title={img.prompt}
+                   >
+                       <GalleryThumbnail blob={img.thumbnail} className="w-full h-full object-cover transition-transform group-hover:scale-110" />
+                       <button
+                           onClick={(e) => { e.stopPropagation(); toggleGallerySelection(img); }}
+                           className={`absolute top-2 left-2 w-4 h-4 rounded border flex items-center justify-center text-[10px] transition-opacity ${gallerySelection.includes(img.id) ? 'bg-cyan-500 border-cyan-300 text-black opacity-100' : 'bg-black/60 border-slate-500 opacity-0 group-hover:opacity-100'}`}
+                           title="Add to / remove from selection"
+                       >
+                           {gallerySelection.includes(img.id) && '✓'}
+                       </button>
+                       <button
+                           onClick={(e) => { e.stopPropagation(); toggleGalleryPin(img); }}
+                           className={`absolute top-2 right-2 p-1 rounded bg-black/60 transition-opacity ${img.pinned ? 'text-amber-400 opacity-100' : 'text-slate-400 opacity-0 group-hover:opacity-100 hover:text-white'}`}
+                           title={img.pinned ? 'Unfavorite (allow eviction)' : 'Favorite (never evict)'}
+                       >
+                           <svg className="w-3.5 h-3.5" fill={img.pinned ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" /></svg>
+                       </button>
+                       <div className="absolute bottom-0 left-0 right-0 p-2 bg-black/80 text-[10px] text-slate-400 truncate flex justify-between items-center gap-2">
+                           <span className="truncate">{new Date(img.timestamp).toLocaleDateString()} {new Date(img.timestamp).toLocaleTimeString()}{img.options?.seed !== undefined && ` // SEED ${img.options.seed}`}</span>
+                           {(img.options?.seed !== undefined || img.options?.negativePrompt) && (
+                               <button
+                                   onClick={(e) => { e.stopPropagation(); reuseGalleryEntry(img); }}
+                                   className="shrink-0 text-cyan-400 hover:text-white uppercase tracking-widest"
+                                   title="Reuse prompt, seed and exclusions"
+                               >
+                                   Reuse
+                               </button>
+                           )}
                        </div>
                    </div>
                ))}
            </div>
+
+           {/* Detail panel */}
+           {selectedGalleryEntry && (
+               <aside className="w-80 shrink-0 border-l border-white/10 bg-slate-900/60 overflow-y-auto p-4 space-y-4 text-xs">
+                   <div className="flex justify-between items-center">
+                       <span className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">Asset Detail</span>
+                       <button onClick={() => setSelectedGalleryId(null)} className="text-slate-500 hover:text-white" title="Close details">✕</button>
+                   </div>
+                   <GalleryThumbnail blob={selectedGalleryEntry.thumbnail} className="w-full rounded border border-white/10" />
+                   <div className="flex gap-2">
+                       <button onClick={() => openGalleryEntry(selectedGalleryEntry)} className="flex-1 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded text-[10px] uppercase tracking-widest">Load</button>
+                       <button onClick={() => reuseGalleryEntry(selectedGalleryEntry)} className="flex-1 py-1.5 border border-cyan-700 text-cyan-300 hover:text-white rounded text-[10px] uppercase tracking-widest">Reuse</button>
+                       <button
+                           onClick={() => toggleGalleryPin(selectedGalleryEntry)}
+                           className={`px-3 py-1.5 rounded border text-[10px] uppercase ${selectedGalleryEntry.pinned ? 'bg-amber-900/60 text-amber-300 border-amber-500' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                           title={selectedGalleryEntry.pinned ? 'Unfavorite (allow eviction)' : 'Favorite (never evict)'}
+                       >
+                           ★
+                       </button>
+                   </div>
+                   <div>
+                       <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Prompt</div>
+                       <p className="text-slate-200 whitespace-pre-wrap break-words select-text">{selectedGalleryEntry.prompt}</p>
+                   </div>
+                   {selectedGalleryEntry.options?.negativePrompt && (
+                       <div>
+                           <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Exclusions</div>
+                           <p className="text-slate-300 whitespace-pre-wrap break-words select-text">{selectedGalleryEntry.options.negativePrompt}</p>
+                       </div>
+                   )}
+                   {selectedGalleryEntry.instruction && !selectedGalleryEntry.regions?.length && (
+                       <div>
+                           <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Instruction</div>
+                           <p className="text-slate-300 whitespace-pre-wrap break-words select-text">{selectedGalleryEntry.instruction}</p>
+                       </div>
+                   )}
+                   {selectedGalleryEntry.regions && selectedGalleryEntry.regions.length > 0 && (
+                       <div>
+                           <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Edit Regions</div>
+                           <ol className="space-y-1 text-slate-300">
+                               {selectedGalleryEntry.regions.map(region => (
+                                   <li key={region.id}><span className="text-cyan-500 font-mono">#{region.id}</span> {region.instruction}</li>
+                               ))}
+                           </ol>
+                       </div>
+                   )}
+                   <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 font-mono text-[10px]">
+                       <dt className="text-slate-500 uppercase">Date</dt>
+                       <dd className="text-slate-300">{new Date(selectedGalleryEntry.timestamp).toLocaleString()}</dd>
+                       {selectedGalleryEntry.operation && (
+                           <>
+                               <dt className="text-slate-500 uppercase">Operation</dt>
+                               <dd className="text-slate-300">{OPERATION_LABELS[selectedGalleryEntry.operation]}</dd>
+                           </>
+                       )}
+                       {selectedGalleryEntry.latencyMs !== undefined && (
+                           <>
+                               <dt className="text-slate-500 uppercase">Latency</dt>
+                               <dd className="text-slate-300">{(selectedGalleryEntry.latencyMs / 1000).toFixed(1)}s</dd>
+                           </>
+                       )}
+                       {selectedGalleryEntry.input && (
+                           <>
+                               <dt className="text-slate-500 uppercase">Input</dt>
+                               <dd className="text-slate-300 break-all select-text">
+                                   {selectedGalleryEntry.input.kind === 'upload' ? `Upload ${selectedGalleryEntry.input.hash}` : `Image ${selectedGalleryEntry.input.id}`}
+                               </dd>
+                           </>
+                       )}
+                       {selectedGalleryEntry.selection && (
+                           <>
+                               <dt className="text-slate-500 uppercase">Selection</dt>
+                               <dd className="text-slate-300">
+                                   {[selectedGalleryEntry.selection.x, selectedGalleryEntry.selection.y, selectedGalleryEntry.selection.w, selectedGalleryEntry.selection.h].map(v => `${v.toFixed(1)}%`).join(' ')}
+                               </dd>
+                           </>
+                       )}
+                       {selectedGalleryEntry.redactions && selectedGalleryEntry.redactions.length > 0 && (
+                           <>
+                               <dt className="text-slate-500 uppercase">Redacted</dt>
+                               <dd className="text-slate-300">{selectedGalleryEntry.redactions.length} area(s)</dd>
+                           </>
+                       )}
+                       {selectedGalleryEntry.options && (
+                           <>
+                               <dt className="text-slate-500 uppercase">Model</dt>
+                               <dd className="text-slate-300">{MODEL_LABELS[selectedGalleryEntry.options.model] ?? selectedGalleryEntry.options.model}</dd>
+                               <dt className="text-slate-500 uppercase">Aesthetic</dt>
+                               <dd className="text-slate-300">{selectedGalleryEntry.options.aesthetic}</dd>
+                               <dt className="text-slate-500 uppercase">Ratio</dt>
+                               <dd className="text-slate-300">
+                                   {selectedGalleryEntry.options.aspectRatio}
+                                   {selectedGalleryEntry.options.aspectRatio === AspectRatio.CUSTOM && selectedGalleryEntry.options.customRatioValue !== undefined && ` (${selectedGalleryEntry.options.customRatioValue.toFixed(2)})`}
+                               </dd>
+                               <dt className="text-slate-500 uppercase">Resolution</dt>
+                               <dd className="text-slate-300">{selectedGalleryEntry.options.resolution}</dd>
+                           </>
+                       )}
+                       {selectedGalleryEntry.options?.seed !== undefined && (
+                           <>
+                               <dt className="text-slate-500 uppercase">Seed</dt>
+                               <dd className="text-slate-300 select-text">{selectedGalleryEntry.options.seed}</dd>
+                           </>
+                       )}
+                       <dt className="text-slate-500 uppercase">Type</dt>
+                       <dd className="text-slate-300">{selectedGalleryEntry.mimeType}</dd>
+                       <dt className="text-slate-500 uppercase">Stored</dt>
+                       <dd className="text-slate-300">{formatBytes(selectedGalleryEntry.bytes)}</dd>
+                       {selectedGalleryEntry.adjustments && selectedGalleryEntry.adjustments.length > 0 && (
+                           <>
+                               <dt className="text-slate-500 uppercase">Adjust</dt>
+                               <dd className="text-slate-300">{selectedGalleryEntry.adjustments.filter(op => op.enabled).map(op => getImageEffect(op.type)?.label ?? op.type).join(', ') || 'all disabled'}</dd>
+                           </>
+                       )}
+                   </dl>
+                   {selectedGalleryEntry.sentPrompt && (
+                       <details className="text-[10px]">
+                           <summary className="font-mono text-slate-500 uppercase cursor-pointer hover:text-slate-300">Prompt as sent</summary>
+                           <pre className="mt-1 p-2 bg-black/40 rounded text-slate-400 whitespace-pre-wrap break-words select-text">{selectedGalleryEntry.sentPrompt.trim()}</pre>
+                       </details>
+                   )}
+                   {selectedLineage && (selectedLineage.chain.length > 1 || selectedLineage.missingParentId) && (
+                       <div>
+                           <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">How this was made</div>
+                           <ol className="space-y-1">
+                               {selectedLineage.missingParentId && (
+                                   <li className="text-[10px] font-mono text-slate-600 pl-12" title={selectedLineage.missingParentId}>EARLIER STEPS NOT IN ARCHIVE</li>
+                               )}
+                               {selectedLineage.chain.map((step, i) => (
+                                   <li key={step.id}>
+                                       <button
+                                           onClick={() => { setSelectedGalleryId(step.id); setGallerySelection([step.id]); }}
+                                           className={`w-full flex items-center gap-2 p-1 rounded text-left transition-colors ${step.id === selectedGalleryEntry.id ? 'bg-cyan-950/60 border border-cyan-800' : 'border border-transparent hover:bg-white/5'}`}
+                                       >
+                                           <GalleryThumbnail blob={step.thumbnail} className="w-10 h-10 rounded object-cover shrink-0" />
+                                           <span className="min-w-0 flex-1">
+                                               <span className="block text-[10px] font-mono text-cyan-400 uppercase">
+                                                   {i + 1}. {step.operation ? OPERATION_LABELS[step.operation] : 'Unknown'}
+                                                   {step.latencyMs !== undefined && <span className="text-slate-500"> // {(step.latencyMs / 1000).toFixed(1)}s</span>}
+                                               </span>
+                                               <span className="block text-[10px] text-slate-400 truncate">
+                                                   {step.regions?.map(r => r.instruction).join(' | ') || step.instruction || step.prompt}
+                                               </span>
+                                           </span>
+                                       </button>
+                                   </li>
+                               ))}
+                           </ol>
+                       </div>
+                   )}
+                   <div>
+                       <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Tags</div>
+                       <div className="flex flex-wrap gap-1 mb-2">
+                           {selectedGalleryEntry.tags.length === 0 && <span className="text-slate-600 text-[10px] font-mono">NONE</span>}
+                           {selectedGalleryEntry.tags.map(tag => (
+                               <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded border border-cyan-800 text-cyan-300 text-[10px] font-mono">
+                                   #{tag}
+                                   <button onClick={() => removeGalleryTag(selectedGalleryEntry, tag)} className="text-slate-500 hover:text-red-400" title="Remove tag">✕</button>
+                               </span>
+                           ))}
+                       </div>
+                       <form
+                           onSubmit={(e) => { e.preventDefault(); addGalleryTag(selectedGalleryEntry); }}
+                           className="flex gap-2"
+                       >
+                           <input
+                               type="text"
+                               value={galleryTagDraft}
+                               onChange={(e) => setGalleryTagDraft(e.target.value)}
+                               placeholder="Add tag..."
+                               list="gallery-tag-suggestions"
+                               className="flex-1 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[10px] text-white focus:border-cyan-500 outline-none"
+                           />
+                           <button type="submit" className="px-2 py-1 rounded border border-slate-700 text-slate-300 hover:text-white text-[10px] uppercase">Add</button>
+                       </form>
+                   </div>
+               </aside>
+           )}
+           </div>
         </div>,
         document.body
       )}
@@ -1852,6 +3780,28 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                     className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-white mb-4 focus:border-cyan-500 outline-none"
                     autoFocus
                   />
+                  <label className="text-[10px] uppercase text-slate-500">Look (LUT)</label>
+                  <div className="flex items-center gap-3 mt-1 mb-4">
+                      <select
+                        value={newPresetLut?.id ?? ''}
+                        onChange={(e) => setNewPresetLut(e.target.value ? { id: e.target.value, intensity: newPresetLut?.intensity ?? 100 } : null)}
+                        className="flex-1 bg-slate-800 border border-slate-700 rounded p-2 text-xs text-white focus:border-cyan-500 outline-none"
+                      >
+                          <option value="">None</option>
+                          {lutLibrary.map(lut => <option key={lut.id} value={lut.id}>{lut.name}</option>)}
+                      </select>
+                      {newPresetLut && (
+                          <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={newPresetLut.intensity}
+                            onChange={(e) => setNewPresetLut({ ...newPresetLut, intensity: Number(e.target.value) })}
+                            className="w-24 accent-cyan-500 h-1 bg-slate-700 rounded cursor-pointer"
+                            title={`Intensity ${newPresetLut.intensity}%`}
+                          />
+                      )}
+                  </div>
                   <div className="flex justify-end gap-3">
                       <button onClick={() => setShowPresetSave(false)} className="text-slate-400 hover:text-white text-xs">CANCEL</button>
                       <button onClick={handlePresetSave} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded text-xs">SAVE</button>
@@ -1879,14 +3829,16 @@ const Generator: React.FC<GeneratorProps> = ({ initialId, username }) => {
                    )}
                    {isLoading ? <span className="text-amber-500">PROCESSING DATA</span> : <span>SYSTEM READY</span>}
                 </span>
+                {offlineMode && (
+                    <>
+                        <span className="hidden md:inline text-slate-700">|</span>
+                        <span className="text-amber-500 font-bold">OFFLINE DEMO</span>
+                    </>
+                )}
                 <span className="hidden md:inline text-slate-700">|</span>
                 {/* Dynamic Model Name Display */}
                 <span className="hidden md:inline shrink-0">
-                    MODEL: {
-                        options.model === AIModel.FLASH ? "NSD-CORE/70B (IRIS)" :
-                        options.model === AIModel.IMAGEN ? "NSD-GEN/2.5" :
-                        "NSD-QUANTUM/3.0 (ULTRA)"
-                    }
+                    MODEL: {MODEL_LABELS[options.model]}
                 </span>
                 <span className="hidden md:inline text-slate-700">|</span>
                 <span className="hidden md:flex text-red-500 font-bold tracking-tight text-[9px] select-text cursor-help items-center gap-2 overflow-hidden text-ellipsis">
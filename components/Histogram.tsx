@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from 'react';
+import { ImageHistogram } from '../types';
+
+interface HistogramProps {
+  histogram: ImageHistogram | null;
+  width?: number;
+  height?: number;
+}
+
+const CHANNELS: { key: keyof ImageHistogram; color: string }[] = [
+  { key: 'r', color: 'rgba(239, 68, 68, 0.6)' },
+  { key: 'g', color: 'rgba(34, 197, 94, 0.6)' },
+  { key: 'b', color: 'rgba(59, 130, 246, 0.6)' },
+  { key: 'luma', color: 'rgba(226, 232, 240, 0.35)' },
+];
+
+const Histogram: React.FC<HistogramProps> = ({ histogram, width = 256, height = 80 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    if (!histogram) return;
+
+    // Scale to the tallest bin, ignoring pure black/white so clipped pixels don't flatten the rest
+    let peak = 1;
+    CHANNELS.forEach(({ key }) => {
+      for (let v = 1; v < 255; v++) peak = Math.max(peak, histogram[key][v]);
+    });
+
+    ctx.globalCompositeOperation = 'lighter';
+    CHANNELS.forEach(({ key, color }) => {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(0, height);
+      for (let v = 0; v < 256; v++) {
+        ctx.lineTo((v / 255) * width, height - Math.min(1, histogram[key][v] / peak) * height);
+      }
+      ctx.lineTo(width, height);
+      ctx.closePath();
+      ctx.fill();
+    });
+    ctx.globalCompositeOperation = 'source-over';
+  }, [histogram, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="bg-black/60 border border-white/10 rounded"
+    />
+  );
+};
+
+export default Histogram;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { HistoryTree, getActiveBranch, layoutHistoryTree } from '../services/historyTree';
+import { OPERATION_LABELS } from '../services/lineage';
+import HistoryThumbnail from './HistoryThumbnail';
+
+interface HistoryGraphProps {
+  tree: HistoryTree;
+  onSelect: (id: string) => void;
+}
+
+const NODE = 44;
+const COL = 72; // Horizontal pitch per depth level
+const ROW = 56; // Vertical pitch per leaf
+const PAD = 8;
+
+const HistoryGraph: React.FC<HistoryGraphProps> = ({ tree, onSelect }) => {
+  const layout = layoutHistoryTree(tree);
+  const branch = new Set(getActiveBranch(tree).map(node => node.image.id));
+  const positions = new Map(layout.nodes.map(n => [n.id, { x: PAD + n.depth * COL, y: PAD + n.row * ROW }]));
+  const width = PAD * 2 + (layout.depth - 1) * COL + NODE;
+  const height = PAD * 2 + (layout.rows - 1) * ROW + NODE;
+
+  return (
+    <div className="overflow-auto max-h-80 custom-scrollbar">
+      <div className="relative" style={{ width, height }}>
+        <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+          {layout.edges.map(([from, to]) => {
+            const a = positions.get(from)!;
+            const b = positions.get(to)!;
+            const x1 = a.x + NODE, y1 = a.y + NODE / 2;
+            const x2 = b.x, y2 = b.y + NODE / 2;
+            const mid = (x1 + x2) / 2;
+            return (
+              <path
+                key={`${from}-${to}`}
+                d={`M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}`}
+                fill="none"
+                stroke={branch.has(to) ? 'rgb(6, 182, 212)' : 'rgb(71, 85, 105)'}
+                strokeWidth={branch.has(to) ? 2 : 1}
+              />
+            );
+          })}
+        </svg>
+        {layout.nodes.map(({ id }) => {
+          const { image } = tree.nodes[id];
+          const { x, y } = positions.get(id)!;
+          const isCurrent = id === tree.currentId;
+          return (
+            <button
+              key={id}
+              onClick={() => onSelect(id)}
+              title={`${image.operation ? OPERATION_LABELS[image.operation] : 'Image'}: ${image.regions?.map(r => r.instruction).join(' | ') || image.instruction || image.prompt}`}
+              className={`absolute rounded overflow-hidden border transition-all ${isCurrent ? 'border-cyan-400 ring-2 ring-cyan-500/40' : branch.has(id) ? 'border-cyan-800' : 'border-slate-700 opacity-50 hover:opacity-100'}`}
+              style={{ left: x, top: y, width: NODE, height: NODE }}
+            >
+              <HistoryThumbnail image={image} className="w-full h-full object-cover" />
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryGraph;
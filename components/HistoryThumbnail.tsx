@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratedImage } from '../types';
+import { createThumbnail } from '../services/imageUtils';
+
+interface HistoryThumbnailProps {
+  image: GeneratedImage;
+  className?: string;
+}
+
+// Enough for the 64px strip tiles on a 2x display
+const PREVIEW_EDGE = 128;
+
+// One downscale per image object. History images are replaced rather than mutated,
+// so an edited step gets a fresh preview and dropped steps release theirs.
+const previews = new WeakMap<GeneratedImage, Promise<Blob>>();
+
+const getPreview = (image: GeneratedImage): Promise<Blob> => {
+  let preview = previews.get(image);
+  if (!preview) {
+    preview = createThumbnail(image.base64, PREVIEW_EDGE);
+    previews.set(image, preview);
+  }
+  return preview;
+};
+
+// Small preview of a history step, so strips and graphs never decode the full-size image per node
+const HistoryThumbnail: React.FC<HistoryThumbnailProps> = ({ image, className = '' }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let active = true;
+    getPreview(image)
+      .then(blob => {
+        if (!active) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        // Undecodable preview: show the original rather than an empty tile
+        if (active) setUrl(`data:${image.mimeType};base64,${image.base64}`);
+      });
+    return () => {
+      active = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [image]);
+
+  return url ? <img src={url} alt="" className={className} /> : null;
+};
+
+export default HistoryThumbnail;
@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
 
-const Loader: React.FC = () => {
+interface LoaderProps {
+  onCancel?: () => void;
+}
+
+const Loader: React.FC<LoaderProps> = ({ onCancel }) => {
   const [step, setStep] = useState(0);
   
   const steps = [
@@ -47,6 +51,15 @@ const Loader: React.FC = () => {
         <p className="text-slate-300 text-sm text-center font-light h-6 transition-all duration-300">
            {steps[step]}
         </p>
+
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="mt-6 px-5 py-2 border border-red-500/40 text-red-400 hover:bg-red-500/10 hover:text-red-300 rounded-lg font-mono text-[10px] uppercase tracking-widest transition-colors"
+          >
+            Cancel
+          </button>
+        )}
       </div>
     </div>
   );
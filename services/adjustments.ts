@@ -0,0 +1,60 @@
+import { AdjustmentOperation, GeneratedImage } from "../types";
+import { renderImageData } from "./imageUtils";
+import { getImageEffect, ImageEffect } from "./imageEffect";
+
+// Non-destructive adjustment stack. Operations are stored on the image and always
+// rendered from its clean source, so reordering or toggling never compounds quality loss.
+
+// Longest edge of the live preview render
+export const ADJUSTMENT_PREVIEW_EDGE = 1024;
+
+export const createAdjustment = (type: string, lutId?: string): AdjustmentOperation => {
+  const effect = getImageEffect(type);
+  const params: Record<string, number> = {};
+  effect?.params.forEach(p => { params[p.key] = p.defaultValue; });
+  return { id: `${type}_${Date.now()}_${Math.floor(Math.random() * 1000)}`, type, params, enabled: true, ...(lutId ? { lutId } : {}) };
+};
+
+// The single-step stack a preset's look starts each new image with
+export const createLutAdjustment = (lutId: string, intensity: number): AdjustmentOperation => {
+  const op = createAdjustment('lut', lutId);
+  op.params.intensity = intensity;
+  return op;
+};
+
+export const hasActiveAdjustments = (ops?: AdjustmentOperation[]): boolean =>
+  !!ops && ops.some(op => op.enabled && getImageEffect(op.type));
+
+// Renders the enabled operations in order through the effect registry. maxEdge downsizes first,
+// for fast live previews. Operations whose effect isn't registered are skipped.
+export const renderAdjustmentStack = (
+  base64Data: string,
+  ops: AdjustmentOperation[],
+  maxEdge?: number
+): Promise<string> => {
+  const active = ops
+    .filter(op => op.enabled)
+    .map(operation => ({ operation, effect: getImageEffect(operation.type) }))
+    .filter((entry): entry is { operation: AdjustmentOperation; effect: ImageEffect } => !!entry.effect);
+
+  return renderImageData(base64Data, (image, scale) =>
+    active.reduce((current, { operation, effect }) =>
+      effect.process(current, operation.params, { scale, operation }) || current, image),
+    maxEdge
+  );
+};
+
+// Fields for a local step's new clean pixels that keep the parent's stack, re-rendered on top of them
+export const carryAdjustments = async (
+  cleanBase64: string,
+  ops?: AdjustmentOperation[]
+): Promise<Pick<GeneratedImage, 'cleanBase64' | 'adjustments' | 'renderedBase64'>> => ({
+  cleanBase64,
+  adjustments: ops,
+  renderedBase64: ops && hasActiveAdjustments(ops) ? await renderAdjustmentStack(cleanBase64, ops) : undefined,
+});
+
+// What the user sees, without watermark: the clean render with its stack applied. Model steps (edit,
+// outpaint) and previews build on this; local steps work on cleanBase64 and carry the stack instead.
+export const getWorkingBase64 = (image: GeneratedImage): string =>
+  image.renderedBase64 || image.cleanBase64 || image.base64;
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { MAX_OBJECTS, modelBoxToSelection, parseDetectionResponse } from "./detection";
+
+describe("modelBoxToSelection", () => {
+  it("converts [ymin, xmin, ymax, xmax] on the 0-1000 grid to percentages", () => {
+    expect(modelBoxToSelection([100, 250, 600, 750])).toEqual({ x: 25, y: 10, w: 50, h: 50 });
+  });
+
+  it("accepts numeric strings", () => {
+    expect(modelBoxToSelection(["0", "0", "1000", "1000"])).toEqual({ x: 0, y: 0, w: 100, h: 100 });
+  });
+
+  it("normalizes swapped corners", () => {
+    expect(modelBoxToSelection([600, 750, 100, 250])).toEqual({ x: 25, y: 10, w: 50, h: 50 });
+  });
+
+  it("clamps out-of-range coordinates to the frame", () => {
+    expect(modelBoxToSelection([-200, -50, 500, 1400])).toEqual({ x: 0, y: 0, w: 100, h: 50 });
+  });
+
+  it.each([
+    ["not an array", "100,100,200,200"],
+    ["too few values", [100, 100, 200]],
+    ["too many values", [100, 100, 200, 200, 300]],
+    ["non-numeric values", [100, "left", 200, 200]],
+    ["infinite values", [0, 0, Infinity, 500]],
+    ["zero width", [100, 300, 500, 300]],
+    ["zero height", [400, 100, 400, 500]],
+    ["zero area after clamping", [1200, 100, 1500, 500]],
+  ])("rejects %s", (_case, box) => {
+    expect(modelBoxToSelection(box)).toBeNull();
+  });
+});
+
+describe("parseDetectionResponse", () => {
+  const entry = (label: string, box: number[]) => ({ label, box_2d: box });
+
+  it("parses a bare JSON array", () => {
+    const text = JSON.stringify([entry("cat", [0, 0, 500, 500])]);
+    expect(parseDetectionResponse(text)).toEqual([{ label: "cat", box: { x: 0, y: 0, w: 50, h: 50 } }]);
+  });
+
+  it("parses JSON wrapped in a code fence with surrounding prose", () => {
+    const text = "Here you go:\n```json\n" + JSON.stringify([entry("dog", [100, 200, 300, 400])]) + "\n```\nDone.";
+    expect(parseDetectionResponse(text)).toEqual([{ label: "dog", box: { x: 20, y: 10, w: 20, h: 20 } }]);
+  });
+
+  it("returns an empty list for empty, malformed or non-array replies", () => {
+    expect(parseDetectionResponse("")).toEqual([]);
+    expect(parseDetectionResponse("[]")).toEqual([]);
+    expect(parseDetectionResponse("I cannot detect anything.")).toEqual([]);
+    expect(parseDetectionResponse('[{"label": "cat", "box_2d": [0, 0, 500')).toEqual([]);
+    expect(parseDetectionResponse('{"label": "cat"}')).toEqual([]);
+  });
+
+  it("skips unusable entries and keeps the rest", () => {
+    const text = JSON.stringify([
+      null,
+      "cat",
+      { label: "no box" },
+      entry("flat", [100, 100, 100, 500]),
+      entry("kept", [0, 0, 1000, 1000]),
+    ]);
+    expect(parseDetectionResponse(text)).toEqual([{ label: "kept", box: { x: 0, y: 0, w: 100, h: 100 } }]);
+  });
+
+  it("names unlabelled objects by position and trims labels", () => {
+    const text = JSON.stringify([
+      { box_2d: [0, 0, 500, 500] },
+      entry("  lamp  ", [0, 0, 500, 500]),
+      entry("   ", [0, 0, 500, 500]),
+    ]);
+    expect(parseDetectionResponse(text).map(o => o.label)).toEqual(["object 1", "lamp", "object 3"]);
+  });
+
+  it(`keeps at most ${MAX_OBJECTS} objects`, () => {
+    const text = JSON.stringify(Array.from({ length: MAX_OBJECTS + 5 }, (_, i) => entry(`item ${i}`, [0, 0, 100, 100])));
+    const objects = parseDetectionResponse(text);
+    expect(objects).toHaveLength(MAX_OBJECTS);
+    expect(objects[MAX_OBJECTS - 1].label).toBe(`item ${MAX_OBJECTS - 1}`);
+  });
+});
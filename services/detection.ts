@@ -0,0 +1,53 @@
+import { DetectedObject, SelectionBox } from "../types";
+
+// Gemini reports boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid
+const MODEL_GRID = 1000;
+export const MAX_OBJECTS = 20;
+
+export const DETECTION_PROMPT = `Detect the distinct, prominent objects in this image (at most ${MAX_OBJECTS}).
+Return ONLY a JSON array. Each entry: {"label": "<short name>", "box_2d": [ymin, xmin, ymax, xmax]} with coordinates normalized to 0-1000.`;
+
+const clampPct = (value: number) => Math.max(0, Math.min(100, value));
+
+// Converts one model box to the percentage SelectionBox format. Returns null for malformed or empty boxes.
+export const modelBoxToSelection = (box: unknown): SelectionBox | null => {
+  if (!Array.isArray(box) || box.length !== 4) return null;
+  const values = box.map(Number);
+  if (values.some(v => !Number.isFinite(v))) return null;
+
+  const [ymin, xmin, ymax, xmax] = values.map(v => clampPct((v / MODEL_GRID) * 100));
+  // Tolerate swapped corners
+  const x = Math.min(xmin, xmax);
+  const y = Math.min(ymin, ymax);
+  const w = Math.abs(xmax - xmin);
+  const h = Math.abs(ymax - ymin);
+  if (w <= 0 || h <= 0) return null;
+  return { x, y, w, h };
+};
+
+// Parses the model's reply into labelled boxes. Accepts fenced or bare JSON and skips unusable entries.
+export const parseDetectionResponse = (text: string): DetectedObject[] => {
+  const body = text.replace(/```(?:json)?/gi, '').trim();
+  const start = body.indexOf('[');
+  const end = body.lastIndexOf(']');
+  if (start === -1 || end <= start) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(body.slice(start, end + 1));
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+
+  const objects: DetectedObject[] = [];
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { label, box_2d } = entry as { label?: unknown; box_2d?: unknown };
+    const box = modelBoxToSelection(box_2d);
+    if (!box) continue;
+    objects.push({ label: typeof label === 'string' && label.trim() ? label.trim() : `object ${objects.length + 1}`, box });
+    if (objects.length >= MAX_OBJECTS) break;
+  }
+  return objects;
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { EditRegion } from "../types";
+import { composeEditResult, EditCompositeOps } from "./editComposite";
+
+// String stand-ins that spell out which buffers each canvas step received
+const ops: EditCompositeOps = {
+  createSelectionMask: async (_base64, selection) => `mask(${JSON.stringify(selection)})`,
+  compositeWithMask: async (original, edited, mask) => `comp(${original}|${edited}|${mask})`,
+  applyWatermark: async base64 => `wm(${base64})`,
+};
+
+const region = (id: number, x: number): EditRegion => ({ id, box: { x, y: 0, w: 10, h: 10 }, instruction: `region ${id}` });
+
+describe("composeEditResult", () => {
+  it("composites each region in turn and watermarks the composite", async () => {
+    const regions = [region(1, 0), region(2, 50)];
+    const result = await composeEditResult("src", "model", { regions, mask: "combined" }, ops);
+
+    const first = `comp(src|model|mask(${JSON.stringify(regions[0].box)}))`;
+    const second = `comp(${first}|model|mask(${JSON.stringify(regions[1].box)}))`;
+    expect(result.cleanBase64).toBe(second);
+    expect(result.base64).toBe(`wm(${second})`);
+  });
+
+  it("composites a single mask and watermarks the composite", async () => {
+    const result = await composeEditResult("src", "model", { regions: [], mask: "painted" }, ops);
+    expect(result.cleanBase64).toBe("comp(src|model|painted)");
+    expect(result.base64).toBe("wm(comp(src|model|painted))");
+  });
+
+  it("takes an unmasked edit whole", async () => {
+    const result = await composeEditResult("src", "model", { regions: [] }, ops);
+    expect(result).toEqual({ base64: "wm(model)", cleanBase64: "model" });
+  });
+
+  it("never shows or stores the raw model output for a masked edit", async () => {
+    const result = await composeEditResult("src", "model", { regions: [region(1, 0)] }, ops);
+    expect(result.base64).not.toBe("wm(model)");
+    expect(result.base64).toBe(`wm(${result.cleanBase64})`);
+  });
+});
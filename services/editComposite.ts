@@ -0,0 +1,38 @@
+import { EditRegion } from "../types";
+import { applyWatermark, compositeWithMask, createSelectionMask } from "./imageUtils";
+
+// Canvas steps the composite needs; injectable so the pixel routing can be checked without a DOM
+export interface EditCompositeOps {
+  createSelectionMask: typeof createSelectionMask;
+  compositeWithMask: typeof compositeWithMask;
+  applyWatermark: typeof applyWatermark;
+}
+
+const CANVAS_OPS: EditCompositeOps = { createSelectionMask, compositeWithMask, applyWatermark };
+
+export interface EditComposite {
+  base64: string; // Watermarked; what is shown, downloaded and archived
+  cleanBase64: string;
+}
+
+// Keeps the model's pixels only where the edit was aimed. Regions are composited one at a time so each
+// gets its own feathered edge; otherwise a mask composites once, and an unmasked edit is taken whole.
+// The watermark always goes on the composite, never on the raw model output.
+export const composeEditResult = async (
+  sourceBase64: string,
+  editedBase64: string,
+  target: { regions: EditRegion[]; mask?: string },
+  ops: EditCompositeOps = CANVAS_OPS
+): Promise<EditComposite> => {
+  let cleanBase64 = editedBase64;
+  if (target.regions.length > 0) {
+    cleanBase64 = sourceBase64;
+    for (const region of target.regions) {
+      const regionMask = await ops.createSelectionMask(sourceBase64, region.box);
+      cleanBase64 = await ops.compositeWithMask(cleanBase64, editedBase64, regionMask);
+    }
+  } else if (target.mask) {
+    cleanBase64 = await ops.compositeWithMask(sourceBase64, editedBase64, target.mask);
+  }
+  return { base64: await ops.applyWatermark(cleanBase64), cleanBase64 };
+};
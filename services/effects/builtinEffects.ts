@@ -0,0 +1,119 @@
+import type { ImageEffect, EffectParam } from "../imageEffect";
+import {
+  applyBrightness,
+  applyContrast,
+  applySaturation,
+  applyGaussianBlur,
+  applySepia,
+  applyGrayscale,
+  applyLevels,
+  applyCurves,
+  applyHueShift,
+  applyTemperature,
+  applyVibrance,
+  applyVignette,
+  applyUnsharpMask,
+  applyGrain,
+  applyOutline,
+  applyLut
+} from "../imageUtils";
+import { getLut } from "../lutLibrary";
+
+const param = (key: string, label: string, min: number, max: number, defaultValue: number, step: number = 1): EffectParam =>
+  ({ key, label, min, max, step, defaultValue });
+
+const single = (id: string, label: string, min: number, max: number, defaultValue: number, apply: (image: ImageData, value: number, scale: number) => void): ImageEffect => ({
+  id,
+  label,
+  params: [param('value', label, min, max, defaultValue)],
+  process: (image, params, { scale }) => apply(image, params.value, scale),
+});
+
+// Three-point master curve plus a midtone lift per channel
+const curvePoints = (shadows: number, midtones: number, highlights: number) => [
+  { x: 0, y: 0 },
+  { x: 64, y: 64 + shadows },
+  { x: 128, y: 128 + midtones },
+  { x: 192, y: 192 + highlights },
+  { x: 255, y: 255 },
+];
+const channelCurve = (midtone: number) => midtone === 0 ? undefined : [{ x: 0, y: 0 }, { x: 128, y: 128 + midtone }, { x: 255, y: 255 }];
+
+export const BUILTIN_EFFECTS: ImageEffect[] = [
+  single('brightness', 'Brightness', 0, 200, 110, applyBrightness),
+  single('contrast', 'Contrast', 0, 200, 110, applyContrast),
+  single('saturation', 'Saturation', 0, 200, 120, applySaturation),
+  single('blur', 'Blur', 0, 20, 2, (image, value, scale) => applyGaussianBlur(image, value * scale)),
+  single('sepia', 'Sepia', 0, 100, 40, applySepia),
+  single('grayscale', 'Grayscale', 0, 100, 100, applyGrayscale),
+  {
+    id: 'levels',
+    label: 'Levels',
+    params: [param('black', 'Black', 0, 254, 16), param('gamma', 'Gamma', 0.1, 3, 1, 0.01), param('white', 'White', 1, 255, 240)],
+    process: (image, p) => applyLevels(image, p.black, Math.max(p.black + 1, p.white), p.gamma),
+  },
+  {
+    id: 'curves',
+    label: 'Curves',
+    params: [
+      param('shadows', 'Shadows', -64, 64, -12),
+      param('midtones', 'Mids', -64, 64, 0),
+      param('highlights', 'Highlights', -63, 63, 12),
+      param('red', 'Red', -64, 64, 0),
+      param('green', 'Green', -64, 64, 0),
+      param('blue', 'Blue', -64, 64, 0),
+    ],
+    process: (image, p) => applyCurves(image, curvePoints(p.shadows, p.midtones, p.highlights), channelCurve(p.red), channelCurve(p.green), channelCurve(p.blue)),
+  },
+  {
+    id: 'hue',
+    label: 'Hue / Sat',
+    params: [param('hue', 'Hue', -180, 180, 30), param('saturation', 'Sat', -100, 100, 0), param('lightness', 'Light', -100, 100, 0)],
+    process: (image, p) => applyHueShift(image, p.hue, p.saturation, p.lightness),
+  },
+  {
+    id: 'temperature',
+    label: 'White Balance',
+    params: [param('temperature', 'Temp', -100, 100, 25), param('tint', 'Tint', -100, 100, 0)],
+    process: (image, p) => applyTemperature(image, p.temperature, p.tint),
+  },
+  {
+    id: 'vibrance',
+    label: 'Vibrance',
+    params: [param('value', 'Vibrance', -100, 100, 40)],
+    process: (image, p) => applyVibrance(image, p.value),
+  },
+  {
+    id: 'vignette',
+    label: 'Vignette',
+    params: [param('amount', 'Amount', -100, 100, 40), param('midpoint', 'Midpoint', 0, 100, 50), param('feather', 'Feather', 0, 100, 50)],
+    process: (image, p) => applyVignette(image, p.amount, p.midpoint, p.feather),
+  },
+  {
+    id: 'sharpen',
+    label: 'Unsharp Mask',
+    params: [param('amount', 'Amount', 0, 300, 80), param('radius', 'Radius', 1, 10, 2), param('threshold', 'Threshold', 0, 64, 4)],
+    process: (image, p, { scale }) => applyUnsharpMask(image, p.amount, p.radius * scale, p.threshold),
+  },
+  {
+    id: 'grain',
+    label: 'Film Grain',
+    params: [param('amount', 'Amount', 0, 100, 25), param('size', 'Size', 1, 8, 1), param('seed', 'Seed', 0, 999, 0)],
+    process: (image, p, { scale }) => applyGrain(image, p.amount, p.size * scale, p.seed),
+  },
+  {
+    id: 'outline',
+    label: 'Outline',
+    params: [param('threshold', 'Threshold', 0, 255, 30)],
+    process: (image, p) => applyOutline(image, p.threshold),
+  },
+  {
+    id: 'lut',
+    label: 'LUT',
+    params: [param('intensity', 'Intensity', 0, 100, 100)],
+    process: (image, p, { operation }) => {
+      const lut = operation.lutId ? getLut(operation.lutId) : undefined;
+      if (lut) applyLut(image, lut, p.intensity / 100);
+    },
+  },
+];
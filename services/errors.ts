@@ -0,0 +1,124 @@
+// Typed failures raised by the service layer. Every class keeps the original
+// error as `cause` so the UI can show the real reason behind its themed message.
+
+export class FluxError extends Error {
+  code: string = 'UNKNOWN';
+  cause?: unknown;
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'FluxError';
+    this.cause = cause;
+  }
+}
+
+export class AuthError extends FluxError {
+  code = 'AUTH';
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends FluxError {
+  code = 'QUOTA';
+  retryAfterMs?: number; // Server hint, when the response carried one
+  constructor(message: string, retryAfterMs?: number, cause?: unknown) {
+    super(message, cause);
+    this.name = 'QuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SafetyRefusalError extends FluxError {
+  code = 'SAFETY';
+  modelText: string; // What the model said instead of returning an image
+  constructor(modelText: string, cause?: unknown) {
+    super(modelText || "The model refused the request.", cause);
+    this.name = 'SafetyRefusalError';
+    this.modelText = modelText;
+  }
+}
+
+export class NetworkError extends FluxError {
+  code = 'NETWORK';
+  status?: number; // HTTP status for server-side failures, absent for transport failures
+  constructor(message: string, status?: number, cause?: unknown) {
+    super(message, cause);
+    this.name = 'NetworkError';
+    this.status = status;
+  }
+}
+
+export class NoImageError extends FluxError {
+  code = 'NO_IMAGE';
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'NoImageError';
+  }
+}
+
+export class UnsupportedCapabilityError extends FluxError {
+  code = 'UNSUPPORTED';
+  capability: string;
+  constructor(capability: string, message: string) {
+    super(message);
+    this.name = 'UnsupportedCapabilityError';
+    this.capability = capability;
+  }
+}
+
+// Raised when the caller aborts a request; never shown as a failure
+export class CancelledError extends FluxError {
+  code = 'CANCELLED';
+  constructor(message: string = "Request cancelled.", cause?: unknown) {
+    super(message, cause);
+    this.name = 'CancelledError';
+  }
+}
+
+// Reads the RetryInfo delay ("37s") or a Retry-After header value out of an API error
+const parseRetryAfterMs = (err: any, text: string): number | undefined => {
+  const header = err?.headers?.get?.('retry-after') ?? err?.headers?.['retry-after'];
+  if (header && !isNaN(Number(header))) return Number(header) * 1000;
+
+  const match = text.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (match) return Math.round(parseFloat(match[1]) * 1000);
+  return undefined;
+};
+
+// Converts anything thrown by the SDK, fetch or an adapter into a FluxError subclass
+export const toFluxError = (err: unknown): FluxError => {
+  if (err instanceof FluxError) return err;
+
+  const anyErr = err as any;
+  const message: string = anyErr?.message ? String(anyErr.message) : String(err);
+  const status: number | undefined = typeof anyErr?.status === 'number' ? anyErr.status : undefined;
+
+  if (anyErr?.name === 'AbortError') {
+    return new CancelledError(undefined, err);
+  }
+
+  if (status === 401 || status === 403 || /PERMISSION_DENIED|UNAUTHENTICATED|API key not valid/i.test(message)) {
+    return new AuthError(message, err);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+    return new QuotaError(message, parseRetryAfterMs(anyErr, message), err);
+  }
+  if (status !== undefined && status >= 500) {
+    return new NetworkError(message, status, err);
+  }
+  // fetch() rejects with a TypeError when the request never reaches the server
+  if (err instanceof TypeError || /Failed to fetch|NetworkError|ERR_NETWORK|ECONNRESET/i.test(message)) {
+    return new NetworkError(message, undefined, err);
+  }
+  return new FluxError(message, err);
+};
+
+// Full technical description of a failure, including its wrapped cause
+export const describeErrorCause = (err: FluxError): string => {
+  const cause = err.cause as any;
+  const causeText = cause && cause !== err && cause.message && cause.message !== err.message
+    ? ` | CAUSE: ${cause.message}`
+    : '';
+  return `${err.name}: ${err.message}${causeText}`;
+};
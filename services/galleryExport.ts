@@ -0,0 +1,105 @@
+import { AdjustmentOperation, EditRegion, GenerationOptions, ImageOperation, InputImageRef, SelectionBox } from "../types";
+import { GalleryEntry, loadGalleryBlob } from "./galleryStore";
+import { createZip, ZipInput } from "./zipWriter";
+
+// Bulk export of archive entries as a ZIP: one file per image under images/, plus a manifest.json
+// describing each one so the set can be audited or re-imported elsewhere.
+
+export const MANIFEST_VERSION = 1;
+
+// How an image came to look the way it does. parentId points at another manifest entry when the
+// parent was exported too; follow it to walk the chain back to the original generation.
+export interface ManifestLineage {
+  operation?: ImageOperation;
+  parentId?: string;
+  input?: InputImageRef;
+  selection?: SelectionBox;
+  redactions?: SelectionBox[];
+  instruction?: string;
+  regions?: EditRegion[]; // Edit instructions that produced it
+  sentPrompt?: string;
+  latencyMs?: number;
+  adjustments?: AdjustmentOperation[]; // Adjustment stack, already applied to the exported file
+}
+
+export interface ManifestEntry {
+  id: string;
+  file: string; // Path inside the ZIP
+  mimeType: string;
+  createdAt: string; // ISO 8601
+  prompt: string;
+  options?: GenerationOptions;
+  tags: string[];
+  favorite: boolean;
+  lineage: ManifestLineage;
+}
+
+export interface GalleryManifest {
+  version: number;
+  exportedAt: string;
+  count: number;
+  images: ManifestEntry[];
+}
+
+export interface GalleryExportResult {
+  zip: Blob;
+  exported: number;
+  missing: string[]; // Ids whose image data was no longer in the archive
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const toManifestEntry = (entry: GalleryEntry, file: string): ManifestEntry => ({
+  id: entry.id,
+  file,
+  mimeType: entry.mimeType,
+  createdAt: new Date(entry.timestamp).toISOString(),
+  prompt: entry.prompt,
+  options: entry.options,
+  tags: entry.tags,
+  favorite: entry.pinned,
+  lineage: {
+    operation: entry.operation,
+    parentId: entry.parentId,
+    input: entry.input,
+    selection: entry.selection,
+    redactions: entry.redactions,
+    instruction: entry.instruction,
+    regions: entry.regions,
+    sentPrompt: entry.sentPrompt,
+    latencyMs: entry.latencyMs,
+    adjustments: entry.adjustments,
+  },
+});
+
+export const exportGalleryZip = async (entries: GalleryEntry[]): Promise<GalleryExportResult> => {
+  const files: ZipInput[] = [];
+  const images: ManifestEntry[] = [];
+  const missing: string[] = [];
+
+  // Sequential reads keep only one full-size image in flight besides what the ZIP already holds
+  for (const entry of entries) {
+    const blob = await loadGalleryBlob(entry.id);
+    if (!blob) {
+      missing.push(entry.id);
+      continue;
+    }
+    const file = `images/${entry.id}.${EXTENSIONS[entry.mimeType] ?? 'png'}`;
+    files.push({ name: file, data: blob, modified: new Date(entry.timestamp) });
+    images.push(toManifestEntry(entry, file));
+  }
+
+  const manifest: GalleryManifest = {
+    version: MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    count: images.length,
+    images,
+  };
+  files.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+
+  return { zip: await createZip(files), exported: images.length, missing };
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { AIModel, Aesthetic, AspectRatio, ImageResolution } from "../types";
+import { GalleryEntry } from "./galleryStore";
+import { DEFAULT_GALLERY_QUERY, filterGallery, galleryFacets, normalizeTag } from "./galleryQuery";
+
+const entry = (id: string, patch: Partial<GalleryEntry> = {}): GalleryEntry => ({
+  id,
+  mimeType: 'image/png',
+  prompt: id,
+  timestamp: 0,
+  thumbnail: new Blob(),
+  bytes: 0,
+  pinned: false,
+  tags: [],
+  ...patch,
+});
+
+const options = (patch: Partial<NonNullable<GalleryEntry['options']>> = {}) => ({
+  aspectRatio: AspectRatio.SQUARE,
+  resolution: ImageResolution.RES_1K,
+  aesthetic: Aesthetic.GENERAL,
+  model: AIModel.FLASH,
+  ...patch,
+});
+
+const ids = (entries: GalleryEntry[]) => entries.map(e => e.id);
+
+describe("filterGallery", () => {
+  const entries = [
+    entry('harbor', { prompt: 'Foggy harbor at dawn', timestamp: 3, tags: ['sea'], options: options({ negativePrompt: 'boats' }) }),
+    entry('forest', { prompt: 'Forest path', timestamp: 1, pinned: true, instruction: 'add a red fox', options: options({ aesthetic: Aesthetic.ANIME }) }),
+    entry('city', { prompt: 'City at night', timestamp: 2, tags: ['sea', 'night'], regions: [{ id: 1, box: { x: 0, y: 0, w: 1, h: 1 }, instruction: 'neon sign' }] }),
+  ];
+
+  it("matches every term against prompts, exclusions, instructions and tags", () => {
+    expect(ids(filterGallery(entries, { ...DEFAULT_GALLERY_QUERY, text: 'BOATS' }))).toEqual(['harbor']);
+    expect(ids(filterGallery(entries, { ...DEFAULT_GALLERY_QUERY, text: 'fox path' }))).toEqual(['forest']);
+    expect(ids(filterGallery(entries, { ...DEFAULT_GALLERY_QUERY, text: 'neon' }))).toEqual(['city']);
+    expect(ids(filterGallery(entries, { ...DEFAULT_GALLERY_QUERY, text: 'night sea' }))).toEqual(['city']);
+  });
+
+  it("requires every selected tag, favorites and option facets", () => {
+    expect(ids(filterGallery(entries, { ...DEFAULT_GALLERY_QUERY, tags: ['sea'] }))).toEqual(['harbor', 'city']);
+    expect(ids(filterGallery(entries, { ...DEFAULT_GALLERY_QUERY, tags: ['sea', 'night'] }))).toEqual(['city']);
+    expect(ids(filterGallery(entries, { ...DEFAULT_GALLERY_QUERY, favoritesOnly: true }))).toEqual(['forest']);
+    expect(ids(filterGallery(entries, { ...DEFAULT_GALLERY_QUERY, aesthetic: Aesthetic.ANIME }))).toEqual(['forest']);
+    // Entries without options never match an option filter
+    expect(ids(filterGallery(entries, { ...DEFAULT_GALLERY_QUERY, model: AIModel.FLASH }))).toEqual(['harbor', 'forest']);
+  });
+
+  it("sorts by the chosen order", () => {
+    expect(ids(filterGallery(entries, DEFAULT_GALLERY_QUERY))).toEqual(['harbor', 'city', 'forest']);
+    expect(ids(filterGallery(entries, { ...DEFAULT_GALLERY_QUERY, sort: 'oldest' }))).toEqual(['forest', 'city', 'harbor']);
+    expect(ids(filterGallery(entries, { ...DEFAULT_GALLERY_QUERY, sort: 'prompt' }))).toEqual(['city', 'harbor', 'forest']);
+  });
+
+  it("includes both ends of the date range", () => {
+    const day = (date: string, time: string) => entry(`${date} ${time}`, { timestamp: new Date(`${date}T${time}`).getTime() });
+    const dated = [day('2024-05-01', '00:00:00'), day('2024-05-02', '23:59:59'), day('2024-05-03', '00:00:00')];
+    const query = { ...DEFAULT_GALLERY_QUERY, from: '2024-05-01', to: '2024-05-02', sort: 'oldest' as const };
+    expect(ids(filterGallery(dated, query))).toEqual(['2024-05-01 00:00:00', '2024-05-02 23:59:59']);
+  });
+});
+
+describe("galleryFacets", () => {
+  it("lists each value present once, sorted", () => {
+    const facets = galleryFacets([
+      entry('a', { tags: ['sea', 'night'], options: options({ aesthetic: Aesthetic.ANIME }) }),
+      entry('b', { tags: ['sea'], options: options() }),
+      entry('c'),
+    ]);
+    expect(facets.aesthetics).toEqual([Aesthetic.ANIME, Aesthetic.GENERAL]);
+    expect(facets.models).toEqual([AIModel.FLASH]);
+    expect(facets.tags).toEqual(['night', 'sea']);
+  });
+});
+
+describe("normalizeTag", () => {
+  it("lowercases, trims and joins words with dashes", () => {
+    expect(normalizeTag('  Golden   Hour ')).toBe('golden-hour');
+  });
+});
@@ -0,0 +1,88 @@
+import { GalleryEntry } from "./galleryStore";
+
+// Search, filtering and sorting for the archive. Runs in memory over the listed metadata,
+// which stays small because thumbnails are the only blobs it carries.
+
+export type GallerySort = 'newest' | 'oldest' | 'prompt' | 'size';
+
+export interface GalleryQuery {
+  text: string; // Whitespace-separated terms; every term must match
+  tags: string[]; // Entry must carry all of these
+  favoritesOnly: boolean;
+  model: string; // '' matches any
+  aesthetic: string;
+  aspectRatio: string;
+  from?: string; // Inclusive local dates, YYYY-MM-DD
+  to?: string;
+  sort: GallerySort;
+}
+
+export interface GalleryFacets {
+  models: string[];
+  aesthetics: string[];
+  aspectRatios: string[];
+  tags: string[];
+}
+
+export const DEFAULT_GALLERY_QUERY: GalleryQuery = {
+  text: '',
+  tags: [],
+  favoritesOnly: false,
+  model: '',
+  aesthetic: '',
+  aspectRatio: '',
+  sort: 'newest',
+};
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+// Prompt, negative prompt, edit instructions and tags, lowercased for matching
+const searchableText = (entry: GalleryEntry): string =>
+  [entry.prompt, entry.options?.negativePrompt, entry.instruction, ...(entry.regions ?? []).map(r => r.instruction), ...entry.tags]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+const SORTERS: Record<GallerySort, (a: GalleryEntry, b: GalleryEntry) => number> = {
+  newest: (a, b) => b.timestamp - a.timestamp,
+  oldest: (a, b) => a.timestamp - b.timestamp,
+  prompt: (a, b) => a.prompt.localeCompare(b.prompt),
+  size: (a, b) => b.bytes - a.bytes,
+};
+
+export const filterGallery = (entries: GalleryEntry[], query: GalleryQuery): GalleryEntry[] => {
+  const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  const from = query.from ? startOfDay(query.from) : -Infinity;
+  const to = query.to ? endOfDay(query.to) : Infinity;
+
+  return entries
+    .filter(entry => {
+      if (query.favoritesOnly && !entry.pinned) return false;
+      if (query.model && entry.options?.model !== query.model) return false;
+      if (query.aesthetic && entry.options?.aesthetic !== query.aesthetic) return false;
+      if (query.aspectRatio && entry.options?.aspectRatio !== query.aspectRatio) return false;
+      if (entry.timestamp < from || entry.timestamp > to) return false;
+      if (!query.tags.every(tag => entry.tags.includes(tag))) return false;
+      if (terms.length) {
+        const text = searchableText(entry);
+        if (!terms.every(term => text.includes(term))) return false;
+      }
+      return true;
+    })
+    .sort(SORTERS[query.sort]);
+};
+
+// Distinct filter values present in the archive, so the filter bar only offers options that match something
+export const galleryFacets = (entries: GalleryEntry[]): GalleryFacets => {
+  const collect = (pick: (entry: GalleryEntry) => (string | undefined)[]) =>
+    Array.from(new Set(entries.flatMap(pick).filter((v): v is string => !!v))).sort();
+  return {
+    models: collect(e => [e.options?.model]),
+    aesthetics: collect(e => [e.options?.aesthetic]),
+    aspectRatios: collect(e => [e.options?.aspectRatio]),
+    tags: collect(e => e.tags),
+  };
+};
@@ -0,0 +1,194 @@
+import { GeneratedImage } from "../types";
+import { base64ToBlob, blobToBase64, createThumbnail } from "./imageUtils";
+
+// Persistent archive in IndexedDB. Listing only reads the small 'entries' store (metadata + thumbnail);
+// the full-size Blobs live in 'images' and are read when an entry is opened.
+
+const DB_NAME = 'infogenius_gallery';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+const IMAGES = 'images';
+
+// Start evicting above this share of the browser quota, and stop once back under the target
+const QUOTA_HIGH_WATER = 0.9;
+const QUOTA_TARGET = 0.75;
+
+export interface GalleryEntry extends Omit<GeneratedImage, 'base64' | 'cleanBase64' | 'renderedBase64'> {
+  thumbnail: Blob;
+  bytes: number; // Stored size of all blobs for this entry
+  pinned: boolean; // Favorite; pinned entries are never evicted
+  tags: string[];
+}
+
+// Archive-level fields that belong to the user rather than to the image
+export type GalleryEntryPatch = Partial<Pick<GalleryEntry, 'pinned' | 'tags'>>;
+
+interface StoredImages {
+  id: string;
+  image: Blob;
+  clean?: Blob;
+  rendered?: Blob;
+}
+
+export interface StorageUsage {
+  items: number;
+  galleryBytes: number;
+  usage?: number; // Whole-origin figures from navigator.storage, when available
+  quota?: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES)) {
+          db.createObjectStore(ENTRIES, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+};
+
+const isQuotaError = (err: unknown) => err instanceof DOMException && err.name === 'QuotaExceededError';
+
+export const listGallery = async (): Promise<GalleryEntry[]> => {
+  const db = await openDb();
+  const entries = await requestResult(db.transaction(ENTRIES).objectStore(ENTRIES).getAll() as IDBRequest<GalleryEntry[]>);
+  // Entries archived before tagging existed have no tags field
+  return entries.map(entry => ({ ...entry, tags: entry.tags ?? [] })).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const loadGalleryImage = async (id: string): Promise<GeneratedImage | null> => {
+  const db = await openDb();
+  const tx = db.transaction([ENTRIES, IMAGES]);
+  const [entry, stored] = await Promise.all([
+    requestResult(tx.objectStore(ENTRIES).get(id) as IDBRequest<GalleryEntry | undefined>),
+    requestResult(tx.objectStore(IMAGES).get(id) as IDBRequest<StoredImages | undefined>),
+  ]);
+  if (!entry || !stored) return null;
+
+  const { thumbnail, bytes, pinned, tags, ...meta } = entry;
+  return {
+    ...meta,
+    base64: await blobToBase64(stored.image),
+    cleanBase64: stored.clean ? await blobToBase64(stored.clean) : undefined,
+    renderedBase64: stored.rendered ? await blobToBase64(stored.rendered) : undefined,
+  };
+};
+
+// The stored image as-is, without a base64 round trip (for exports)
+export const loadGalleryBlob = async (id: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const stored = await requestResult(db.transaction(IMAGES).objectStore(IMAGES).get(id) as IDBRequest<StoredImages | undefined>);
+  return stored?.image ?? null;
+};
+
+export const deleteFromGallery = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction([ENTRIES, IMAGES], 'readwrite');
+  tx.objectStore(ENTRIES).delete(id);
+  tx.objectStore(IMAGES).delete(id);
+  await transactionDone(tx);
+};
+
+export const updateGalleryEntry = async (id: string, patch: GalleryEntryPatch) => {
+  const db = await openDb();
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  const store = tx.objectStore(ENTRIES);
+  const entry = await requestResult(store.get(id) as IDBRequest<GalleryEntry | undefined>);
+  if (entry) store.put({ ...entry, ...patch });
+  await transactionDone(tx);
+};
+
+// Deletes the oldest unpinned entries until at least `bytesToFree` is released. Returns the evicted ids.
+const evictOldest = async (bytesToFree: number): Promise<string[]> => {
+  const candidates = (await listGallery()).filter(entry => !entry.pinned).reverse();
+  const evicted: string[] = [];
+  let freed = 0;
+  for (const entry of candidates) {
+    if (freed >= bytesToFree) break;
+    await deleteFromGallery(entry.id);
+    freed += entry.bytes;
+    evicted.push(entry.id);
+  }
+  return evicted;
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const entries = await listGallery();
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : undefined;
+  return {
+    items: entries.length,
+    galleryBytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+    usage: estimate?.usage,
+    quota: estimate?.quota,
+  };
+};
+
+// Evicts when the origin is close to its quota. Returns the evicted ids.
+export const enforceStorageQuota = async (): Promise<string[]> => {
+  if (!navigator.storage?.estimate) return [];
+  const { usage, quota } = await navigator.storage.estimate();
+  if (!usage || !quota || usage / quota < QUOTA_HIGH_WATER) return [];
+  return evictOldest(usage - quota * QUOTA_TARGET);
+};
+
+// Adds or replaces an entry. Existing pin state and tags are kept. A full quota evicts old entries and retries once.
+// Returns the ids evicted to make room.
+export const saveToGallery = async (image: GeneratedImage): Promise<string[]> => {
+  const stored: StoredImages = {
+    id: image.id,
+    image: base64ToBlob(image.base64, image.mimeType),
+    clean: image.cleanBase64 ? base64ToBlob(image.cleanBase64) : undefined,
+    rendered: image.renderedBase64 ? base64ToBlob(image.renderedBase64) : undefined,
+  };
+  const thumbnail = await createThumbnail(image.base64);
+  const { base64, cleanBase64, renderedBase64, ...meta } = image;
+  const bytes = thumbnail.size + stored.image.size + (stored.clean?.size ?? 0) + (stored.rendered?.size ?? 0);
+
+  const write = async () => {
+    const db = await openDb();
+    const tx = db.transaction([ENTRIES, IMAGES], 'readwrite');
+    const entries = tx.objectStore(ENTRIES);
+    const existing = await requestResult(entries.get(image.id) as IDBRequest<GalleryEntry | undefined>);
+    entries.put({ ...meta, thumbnail, bytes, pinned: existing?.pinned ?? false, tags: existing?.tags ?? [] } as GalleryEntry);
+    tx.objectStore(IMAGES).put(stored);
+    await transactionDone(tx);
+  };
+
+  try {
+    await write();
+  } catch (err) {
+    if (!isQuotaError(err)) throw err;
+    const evicted = await evictOldest(bytes);
+    await write();
+    return evicted;
+  }
+  return enforceStorageQuota();
+};
@@ -1,23 +1,27 @@
-
 import { GoogleGenAI } from "@google/genai";
-import { GenerationOptions, GeneratedImage, AIModel, AspectRatio, Aesthetic } from "../types";
-
-const getClient = (customKey?: string) => {
-  const apiKey = customKey;
-  if (!apiKey) {
-    throw new Error("API_KEY_MISSING");
-  }
-  return new GoogleGenAI({ apiKey });
-};
-
-// Helper to map custom/UI ratios to API valid ratios
-const getValidApiRatio = (ratio: string): string => {
-  const validRatios = ["1:1", "16:9", "9:16", "4:3", "3:4"];
-  if (validRatios.includes(ratio)) return ratio;
-  return "1:1"; // Fallback for custom
-};
+import { GenerationOptions, GeneratedImage, EditRegion, DetectedObject, AspectRatio } from "../types";
+import { resolveImageProvider, isOfflineMode, ImageProvider } from "./imageProvider";
+import { getClient } from "./providers/shared";
+import { getMockPromptEnhancements, validateMockCredentials } from "./providers/mockProvider";
+import {
+  resizeToResolution,
+  getImageDimensions,
+  cropImage,
+  centerCropForRatio,
+  extendImage,
+  extentsForRatio,
+  extentsToSelection,
+  surroundingBoxes,
+  createSelectionMask,
+  blendOutpaint
+} from "./imageUtils";
+import { toFluxError, CancelledError, AuthError, QuotaError, FluxError } from "./errors";
+import { withRetry, RetryPolicy, RetryInfo, DEFAULT_RETRY_POLICY } from "./retry";
 
 export const validateCredentials = async (apiKey: string): Promise<boolean> => {
+    // Offline demo: no network, any non-empty key passes
+    if (isOfflineMode()) return validateMockCredentials(apiKey);
+
     // 1. Strict Format Validation
     // Google API Keys typically start with "AIza" and are 39 characters long.
     // We allow a bit of flexibility in length just in case, but the prefix is strict.
@@ -46,8 +50,14 @@ export const validateCredentials = async (apiKey: string): Promise<boolean> => {
     }
 };
 
-export const getPromptEnhancements = async (currentPrompt: string, apiKey?: string): Promise<string[]> => {
+export const getPromptEnhancements = async (
+  currentPrompt: string,
+  apiKey?: string,
+  signal?: AbortSignal
+): Promise<string[]> => {
   try {
+    if (isOfflineMode()) return await getMockPromptEnhancements(currentPrompt, signal);
+
     const ai = getClient(apiKey);
     const model = "gemini-2.5-flash"; 
 
@@ -67,196 +77,266 @@ export const getPromptEnhancements = async (currentPrompt: string, apiKey?: stri
     const response = await ai.models.generateContent({
       model,
       contents: prompt,
-      config: { responseMimeType: "application/json" }
+      config: { responseMimeType: "application/json", abortSignal: signal }
     });
     
     const text = response.text;
     if (!text) return [];
     return JSON.parse(text);
   } catch (e) {
+    // Cancellation is the caller's decision, so it is reported rather than swallowed
+    if (signal?.aborted) throw new CancelledError(undefined, e);
     console.error("Error getting suggestions", e);
     return [];
   }
 };
 
-export const generateImage = async (
-  prompt: string,
-  options: GenerationOptions,
-  inputImage?: string, // Base64 string (no prefix)
-  apiKey?: string // Optional override
+// --- PROVIDER FACADE ---
+// The model id in GenerationOptions decides which registered adapter handles the request.
+// Whatever an adapter throws comes back out as a typed FluxError (see errors.ts).
+
+// Per-call knobs shared by the facade functions
+export interface ServiceRequestOptions {
+  retryPolicy?: RetryPolicy;
+  onRetry?: (info: RetryInfo) => void;
+  signal?: AbortSignal; // Aborts the in-flight request and any pending retry
+  // Extra model calls the facade made on its own (e.g. custom-ratio fills). Reported once the call succeeded
+  // and its result is used, so callers can count them toward quota along with the images they keep.
+  onAuxiliaryRequest?: (purpose: string) => void;
+  // A step degraded instead of failing (e.g. a ratio fill fell back to a crop)
+  onFallback?: (message: string, cause: FluxError) => void;
+}
+
+// Brings provider output to the requested resolution tier when the backend could not render it natively
+const conformResolution = async (
+  image: GeneratedImage,
+  options: GenerationOptions
 ): Promise<GeneratedImage> => {
-  const ai = getClient(apiKey);
-  
-  // Only append specific configuration if not General
-  const aestheticConfig = options.aesthetic === Aesthetic.GENERAL 
-    ? "" 
-    : `- Aesthetic Style: ${options.aesthetic}`;
+  const provider = resolveImageProvider(options.model);
+  if (provider.nativeResolutions(options.model).includes(options.resolution)) {
+    return { ...image, resolution: options.resolution };
+  }
+  const base64 = await resizeToResolution(image.base64, options.resolution);
+  return { ...image, base64, mimeType: 'image/png', resolution: options.resolution };
+};
 
-  const enhancedPrompt = `
-    [SYSTEM_DIRECTIVE: GENERATE_VISUAL_ASSET]
-    SUBJECT: "${prompt}"
-    
-    ${aestheticConfig ? `PARAMETERS: ${aestheticConfig}` : ""}
-    
-    CONSTRAINT: OUTPUT IMAGE ONLY. DO NOT GENERATE CONVERSATIONAL TEXT, COMMENTARY, OR FEEDBACK.
-    MODE: HIGH_FIDELITY
-  `;
+// Cropping to the exact ratio is preferred while it discards at most this share of the frame
+const MAX_RATIO_CROP_LOSS = 0.15;
+
+// The API only renders a few fixed ratios. Custom ratios arrive at the nearest one and are
+// center-cropped (small differences) or outpainted (large ones) to the exact value here.
+const conformAspectRatio = async (
+  image: GeneratedImage,
+  options: GenerationOptions,
+  provider: ImageProvider,
+  apiKey: string | undefined,
+  request: ServiceRequestOptions
+): Promise<GeneratedImage> => {
+  const target = options.aspectRatio === AspectRatio.CUSTOM ? options.customRatioValue : undefined;
+  if (!target || !(target > 0)) return image;
 
-  const apiRatio = getValidApiRatio(options.aspectRatio);
+  const { width, height } = await getImageDimensions(image.base64);
+  const current = width / height;
+  if (Math.abs(current / target - 1) < 0.01) return image;
 
-  // --- IMAGEN MODEL PATH ---
-  if (options.model === AIModel.IMAGEN) {
-      if (inputImage) {
-          throw new Error("The selected Imagen model does not support Image-to-Image generation. Please use a Gemini model (UMBRAX-Iris 5.1).");
-      }
+  const crop = async () => {
+    const base64 = await cropImage(image.base64, centerCropForRatio(width, height, target));
+    return { ...image, base64, mimeType: 'image/png' };
+  };
 
-      const response = await ai.models.generateImages({
-          model: options.model,
-          prompt: enhancedPrompt,
-          config: {
-              numberOfImages: 1,
-              aspectRatio: apiRatio,
-              outputMimeType: 'image/png'
-          }
-      });
+  const cropLoss = 1 - Math.min(current, target) / Math.max(current, target);
+  if (cropLoss <= MAX_RATIO_CROP_LOSS || !provider.capabilities.edit) return crop();
 
-      if (response.generatedImages && response.generatedImages.length > 0) {
-          return {
-              id: Date.now().toString(),
-              base64: response.generatedImages[0].image.imageBytes,
-              mimeType: 'image/png',
-              prompt: prompt,
-              timestamp: Date.now(),
-          };
-      }
-      throw new Error("No image data received from Imagen model.");
+  try {
+    const extents = extentsForRatio(width, height, target);
+    const placement = extentsToSelection(extents);
+    const extendedBase64 = await extendImage(image.base64, extents);
+    const fillMask = await createSelectionMask(extendedBase64, surroundingBoxes(placement));
+    const filled = await withRetry(
+      () => provider.edit(
+        { ...image, base64: extendedBase64, mimeType: 'image/png' },
+        "Seamlessly extend the scene into the empty dark area, matching the style and lighting of the central image.",
+        options,
+        fillMask,
+        apiKey,
+        request.signal
+      ),
+      request.retryPolicy || DEFAULT_RETRY_POLICY,
+      request.onRetry,
+      request.signal
+    );
+    const base64 = await blendOutpaint(filled.base64, extendedBase64, placement);
+    request.onAuxiliaryRequest?.('ratio-fill');
+    return { ...image, base64, mimeType: 'image/png' };
+  } catch (e) {
+    // A failed fill still leaves a usable image, so most failures fall back to the crop. Cancels and
+    // account-level failures (bad key, exhausted quota) are raised instead: every later call would hit them too.
+    const error = toFluxError(e);
+    if (request.signal?.aborted || error instanceof AuthError || error instanceof QuotaError) throw error;
+    request.onFallback?.('ratio fill failed; center-cropped to the exact ratio instead', error);
+    return crop();
   }
+};
 
-  // --- GEMINI MODEL PATH ---
-  const imageConfig: any = {
-    aspectRatio: apiRatio,
-  };
+export const MAX_BATCH_COUNT = 8;
 
-  let contents: any = enhancedPrompt;
-  
-  // Handle Image-to-Image (Multimodal)
-  if (inputImage) {
-    contents = {
-      parts: [
-        { text: enhancedPrompt },
-        {
-          inlineData: {
-            data: inputImage,
-            mimeType: 'image/png', // Assuming PNG/JPEG from frontend
-          }
-        }
-      ]
+// Largest seed the API accepts (int32)
+export const MAX_SEED = 2147483647;
+
+// Generates options.count images. Providers with native batching get chunked requests,
+// everything else is fanned out in parallel. Partial success returns what arrived.
+export const generateImages = async (
+  prompt: string,
+  options: GenerationOptions,
+  inputImage?: string, // Base64 string (no prefix)
+  apiKey?: string, // Optional override
+  request: ServiceRequestOptions = {}
+): Promise<GeneratedImage[]> => {
+  const count = Math.max(1, Math.min(MAX_BATCH_COUNT, Math.floor(options.count || 1)));
+
+  try {
+    const provider = resolveImageProvider(options.model);
+    const run = (operation: () => Promise<GeneratedImage[]>) => withRetry(
+      operation,
+      request.retryPolicy || DEFAULT_RETRY_POLICY,
+      request.onRetry,
+      request.signal
+    );
+
+    // A fixed seed is offset per request so parallel slots don't all return the same image,
+    // wrapping back to 0 so it stays in the accepted range
+    const slotOptions = (offset: number): GenerationOptions => options.seed === undefined
+      ? options
+      : { ...options, seed: (options.seed + offset) % (MAX_SEED + 1) };
+    const stamp = ({ count: _count, ...slot }: GenerationOptions, started: number) => (images: GeneratedImage[]) => {
+      const latencyMs = Math.round(performance.now() - started);
+      return images.map((image): GeneratedImage => ({
+        ...image, options: slot, operation: 'generate', latencyMs
+      }));
     };
-  }
 
-  const response = await ai.models.generateContent({
-    model: options.model, 
-    contents: contents,
-    config: {
-      imageConfig: imageConfig,
-    },
-  });
+    let settled: PromiseSettledResult<GeneratedImage[]>[];
+    const maxBatch = provider.capabilities.maxBatchSize;
+    if (provider.generateBatch && maxBatch > 1) {
+      const chunks: number[] = [];
+      for (let start = 0; start < count; start += maxBatch) chunks.push(start);
+      settled = await Promise.allSettled(chunks.map(start => {
+        const slot = slotOptions(start);
+        const size = Math.min(count - start, maxBatch);
+        const started = performance.now();
+        return run(() => provider.generateBatch!(prompt, slot, size, inputImage, apiKey, request.signal)).then(stamp(slot, started));
+      }));
+    } else {
+      settled = await Promise.allSettled(Array.from({ length: count }, (_, i) => {
+        const slot = slotOptions(i);
+        const started = performance.now();
+        return run(async () => [await provider.generate(prompt, slot, inputImage, apiKey, request.signal)]).then(stamp(slot, started));
+      }));
+    }
 
-  // Extract image
-  if (response.candidates && response.candidates.length > 0) {
-    const content = response.candidates[0].content;
-    if (content.parts) {
-      // First pass: look for valid image data
-      for (const part of content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          return {
-            id: Date.now().toString(),
-            base64: part.inlineData.data,
-            mimeType: part.inlineData.mimeType || 'image/png',
-            prompt: prompt,
-            timestamp: Date.now(),
-          };
-        }
-      }
-      // Second pass: if no image, check for text to throw as error (e.g. safety refusal)
-      for (const part of content.parts) {
-        if (part.text) {
-          throw new Error(part.text);
-        }
-      }
+    if (request.signal?.aborted) throw new CancelledError();
+
+    const images = settled.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+    if (images.length === 0) {
+      throw (settled.find(result => result.status === 'rejected') as PromiseRejectedResult).reason;
+    }
+
+    // Parallel results can share a millisecond timestamp, so ids are reissued per slot.
+    // Conformed one at a time: a custom ratio can cost an extra fill request per image.
+    const now = Date.now();
+    const conformed: GeneratedImage[] = [];
+    for (const [i, image] of images.entries()) {
+      const exact = await conformAspectRatio(image, options, provider, apiKey, request);
+      conformed.push(await conformResolution(count > 1 ? { ...exact, id: `${now}_${i}` } : exact, options));
     }
+    if (request.signal?.aborted) throw new CancelledError();
+    return conformed;
+  } catch (e) {
+    throw toFluxError(e);
   }
-  
-  throw new Error("No image data received from the model.");
+};
+
+// Folds numbered regions into one instruction so every region is handled by a single edit call.
+// Coordinates are percentages of the frame, matching the mask sent alongside.
+export const buildRegionInstruction = (regions: EditRegion[]): string => {
+  const lines = regions.map(r =>
+    `REGION ${r.id} (Left ${r.box.x.toFixed(1)}%, Top ${r.box.y.toFixed(1)}%, Width ${r.box.w.toFixed(1)}%, Height ${r.box.h.toFixed(1)}%): ${r.instruction}`
+  );
+  return `Apply each change ONLY inside its own region. Leave everything outside the regions untouched.\n${lines.join('\n')}`;
 };
 
 export const editImage = async (
   currentImage: GeneratedImage,
   editInstruction: string,
   options: GenerationOptions,
-  apiKey?: string
+  mask?: string, // Binary PNG (no prefix), white = region to change
+  apiKey?: string,
+  request: ServiceRequestOptions = {},
+  frameRatio?: number // w / h to ask the model for instead of options' ratio (outpaint fills); not recorded
 ): Promise<GeneratedImage> => {
-  const ai = getClient(apiKey);
-
-  if (options.model === AIModel.IMAGEN) {
-      throw new Error("Edit/Inpainting functions are currently optimized for UMBRAX (Gemini) models only.");
+  try {
+    const provider = resolveImageProvider(options.model);
+    const started = performance.now();
+    const editOptions = frameRatio ? { ...options, aspectRatio: AspectRatio.CUSTOM, customRatioValue: frameRatio } : options;
+    const image = await withRetry(
+      () => provider.edit(currentImage, editInstruction, editOptions, mask, apiKey, request.signal),
+      request.retryPolicy || DEFAULT_RETRY_POLICY,
+      request.onRetry,
+      request.signal
+    );
+    const latencyMs = Math.round(performance.now() - started);
+    const conformed = await conformResolution(image, options);
+    if (request.signal?.aborted) throw new CancelledError();
+    // The prompt stays the one the lineage started from; the instruction is recorded on its own
+    return {
+      ...conformed,
+      prompt: currentImage.prompt,
+      options,
+      operation: 'edit',
+      parentId: currentImage.id,
+      input: { kind: 'image', id: currentImage.id },
+      instruction: editInstruction,
+      latencyMs
+    };
+  } catch (e) {
+    throw toFluxError(e);
   }
+};
 
-  // Configure based on selected model
-  const apiRatio = getValidApiRatio(options.aspectRatio);
-  const imageConfig: any = {
-      aspectRatio: apiRatio
-  };
-
-  const strictInstruction = `
-    [SYSTEM_DIRECTIVE: EDIT_VISUAL]
-    TASK: ${editInstruction}
-    CONSTRAINT: OUTPUT IMAGE ONLY. NO CONVERSATIONAL TEXT.
-  `;
-
-  const response = await ai.models.generateContent({
-    model: options.model, 
-    contents: {
-      parts: [
-        {
-          text: strictInstruction,
-        },
-        {
-          inlineData: {
-            data: currentImage.base64,
-            mimeType: currentImage.mimeType,
-          },
-        },
-      ],
-    },
-    config: {
-      imageConfig: imageConfig,
-    },
-  });
-
-  // Extract image
-  if (response.candidates && response.candidates.length > 0) {
-    const content = response.candidates[0].content;
-    if (content.parts) {
-      for (const part of content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          return {
-            id: Date.now().toString(),
-            base64: part.inlineData.data,
-            mimeType: part.inlineData.mimeType || 'image/png',
-            prompt: editInstruction, // Update prompt to the latest edit instruction
-            timestamp: Date.now(),
-          };
-        }
-      }
-      // If no image, check for text error
-      for (const part of content.parts) {
-        if (part.text) {
-          throw new Error(part.text);
-        }
-      }
-    }
+export const describeImage = async (
+  image: GeneratedImage,
+  options: GenerationOptions,
+  apiKey?: string,
+  request: ServiceRequestOptions = {}
+): Promise<string> => {
+  try {
+    const provider = resolveImageProvider(options.model);
+    return await withRetry(
+      () => provider.describe(image, apiKey, request.signal),
+      request.retryPolicy || DEFAULT_RETRY_POLICY,
+      request.onRetry,
+      request.signal
+    );
+  } catch (e) {
+    throw toFluxError(e);
   }
+};
 
-  throw new Error("No edited image data received from the model.");
+export const detectObjects = async (
+  image: GeneratedImage,
+  options: GenerationOptions,
+  apiKey?: string,
+  request: ServiceRequestOptions = {}
+): Promise<DetectedObject[]> => {
+  try {
+    const provider = resolveImageProvider(options.model);
+    return await withRetry(
+      () => provider.detect(image, apiKey, request.signal),
+      request.retryPolicy || DEFAULT_RETRY_POLICY,
+      request.onRetry,
+      request.signal
+    );
+  } catch (e) {
+    throw toFluxError(e);
+  }
 };
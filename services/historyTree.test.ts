@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { GeneratedImage } from "../types";
+import {
+  EMPTY_HISTORY, HistoryTree, addHistoryNode, getActiveBranch, getRedoTarget, getSiblingIds,
+  getUndoTarget, layoutHistoryTree, moveHistoryTo, replaceHistoryImage
+} from "./historyTree";
+
+const image = (id: string): GeneratedImage => ({ id, base64: id, mimeType: 'image/png', prompt: 'p', timestamp: 0 });
+
+// Adds each [id, parentId] pair in order
+const build = (steps: [string, string | null][]): HistoryTree =>
+  steps.reduce((tree, [id, parentId]) => addHistoryNode(tree, image(id), parentId), EMPTY_HISTORY);
+
+const branchIds = (tree: HistoryTree) => getActiveBranch(tree).map(node => node.image.id);
+
+describe("history tree", () => {
+  it("chains steps and makes the newest one current", () => {
+    const tree = build([['a', null], ['b', 'a'], ['c', 'b']]);
+    expect(tree.currentId).toBe('c');
+    expect(tree.rootIds).toEqual(['a']);
+    expect(getUndoTarget(tree)).toBe('b');
+    expect(getRedoTarget(tree)).toBeNull();
+    expect(branchIds(tree)).toEqual(['a', 'b', 'c']);
+  });
+
+  it("keeps the steps ahead when editing after an undo, as a sibling branch", () => {
+    const undone = moveHistoryTo(build([['a', null], ['b', 'a'], ['c', 'b']]), 'b');
+    expect(getRedoTarget(undone)).toBe('c');
+    expect(branchIds(undone)).toEqual(['a', 'b', 'c']);
+
+    const branched = addHistoryNode(undone, image('d'), 'b');
+    expect(branched.nodes.b.childIds).toEqual(['c', 'd']);
+    expect(getSiblingIds(branched, 'd')).toEqual(['c', 'd']);
+    expect(branchIds(branched)).toEqual(['a', 'b', 'd']);
+    expect(branched.nodes.c).toBeDefined();
+  });
+
+  it("points redo down the path last visited", () => {
+    const tree = build([['a', null], ['b', 'a'], ['c', 'a']]);
+    const visited = moveHistoryTo(moveHistoryTo(tree, 'b'), 'a');
+    expect(getRedoTarget(visited)).toBe('b');
+    expect(branchIds(visited)).toEqual(['a', 'b']);
+  });
+
+  it("starts a new root for each generation and treats roots as siblings", () => {
+    const tree = build([['a', null], ['b', 'a'], ['x', null]]);
+    expect(tree.rootIds).toEqual(['a', 'x']);
+    expect(getSiblingIds(tree, 'x')).toEqual(['a', 'x']);
+    expect(getUndoTarget(tree)).toBeNull();
+    expect(branchIds(tree)).toEqual(['x']);
+  });
+
+  it("moves to an existing node instead of adding it twice", () => {
+    const tree = build([['a', null], ['b', 'a']]);
+    const readded = addHistoryNode(tree, image('a'), 'b');
+    expect(readded.currentId).toBe('a');
+    expect(readded.nodes.b.childIds).toEqual([]);
+    expect(Object.keys(readded.nodes)).toEqual(['a', 'b']);
+  });
+
+  it("replaces a node's image in place and ignores unknown ids", () => {
+    const tree = build([['a', null], ['b', 'a']]);
+    const updated = replaceHistoryImage(tree, { ...image('a'), base64: 'rendered' });
+    expect(updated.nodes.a.image.base64).toBe('rendered');
+    expect(updated.nodes.a.childIds).toEqual(['b']);
+    expect(updated.currentId).toBe('b');
+    expect(replaceHistoryImage(tree, image('zzz'))).toBe(tree);
+    expect(moveHistoryTo(tree, 'zzz')).toBe(tree);
+  });
+
+  it("never mutates the tree it was given", () => {
+    const tree = build([['a', null], ['b', 'a']]);
+    const snapshot = JSON.stringify(tree);
+    addHistoryNode(moveHistoryTo(tree, 'a'), image('c'), 'a');
+    expect(JSON.stringify(tree)).toBe(snapshot);
+  });
+
+  it("lays out leaves on consecutive rows with parents on their first child's row", () => {
+    const tree = build([['a', null], ['b', 'a'], ['c', 'b'], ['d', 'a'], ['x', null]]);
+    const layout = layoutHistoryTree(tree);
+    expect(layout.nodes).toEqual([
+      { id: 'a', depth: 0, row: 0 },
+      { id: 'b', depth: 1, row: 0 },
+      { id: 'c', depth: 2, row: 0 },
+      { id: 'd', depth: 1, row: 1 },
+      { id: 'x', depth: 0, row: 2 },
+    ]);
+    expect(layout.edges).toEqual([['a', 'b'], ['b', 'c'], ['a', 'd']]);
+    expect(layout.depth).toBe(3);
+    expect(layout.rows).toBe(3);
+  });
+});
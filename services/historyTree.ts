@@ -0,0 +1,136 @@
+import { GeneratedImage } from "../types";
+
+// Session history as a tree. Editing after an undo starts a sibling branch instead of discarding
+// the steps ahead, and each new generation adds another root. Every update returns a new tree.
+
+export interface HistoryNode {
+  image: GeneratedImage;
+  parentId: string | null;
+  childIds: string[]; // In creation order
+  activeChildId: string | null; // Child redo follows: the one last visited or created
+}
+
+export interface HistoryTree {
+  nodes: Record<string, HistoryNode>;
+  rootIds: string[];
+  currentId: string | null;
+}
+
+// Grid position for the graph view: depth from the root and the row of its subtree
+export interface HistoryLayoutNode {
+  id: string;
+  depth: number;
+  row: number;
+}
+
+export interface HistoryLayout {
+  nodes: HistoryLayoutNode[];
+  edges: [string, string][]; // [parentId, childId]
+  depth: number; // Deepest level + 1
+  rows: number;
+}
+
+export const EMPTY_HISTORY: HistoryTree = { nodes: {}, rootIds: [], currentId: null };
+
+// Points every ancestor's activeChildId down the path to `id`, so redo and the branch view follow it
+const activatePath = (nodes: Record<string, HistoryNode>, id: string): Record<string, HistoryNode> => {
+  const next = { ...nodes };
+  let child = next[id];
+  while (child?.parentId) {
+    const parent = next[child.parentId];
+    if (parent.activeChildId !== child.image.id) next[parent.image.id] = { ...parent, activeChildId: child.image.id };
+    child = next[child.parentId];
+  }
+  return next;
+};
+
+// Adds `image` under `parentId` (or as a new root) and makes it current. Re-adding an existing id just moves to it.
+export const addHistoryNode = (tree: HistoryTree, image: GeneratedImage, parentId: string | null): HistoryTree => {
+  if (tree.nodes[image.id]) return moveHistoryTo(tree, image.id);
+  const parent = parentId ? tree.nodes[parentId] : undefined;
+  const nodes = { ...tree.nodes, [image.id]: { image, parentId: parent ? parent.image.id : null, childIds: [], activeChildId: null } };
+  if (parent) {
+    nodes[parent.image.id] = { ...parent, childIds: [...parent.childIds, image.id] };
+  }
+  return {
+    nodes: activatePath(nodes, image.id),
+    rootIds: parent ? tree.rootIds : [...tree.rootIds, image.id],
+    currentId: image.id,
+  };
+};
+
+// Swaps the image stored at an existing node (e.g. after re-rendering its adjustment stack)
+export const replaceHistoryImage = (tree: HistoryTree, image: GeneratedImage): HistoryTree => {
+  const node = tree.nodes[image.id];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [image.id]: { ...node, image } } };
+};
+
+export const moveHistoryTo = (tree: HistoryTree, id: string): HistoryTree => {
+  if (!tree.nodes[id]) return tree;
+  return { ...tree, nodes: activatePath(tree.nodes, id), currentId: id };
+};
+
+export const getCurrentNode = (tree: HistoryTree): HistoryNode | null =>
+  tree.currentId ? tree.nodes[tree.currentId] ?? null : null;
+
+// Target of undo: the current node's parent
+export const getUndoTarget = (tree: HistoryTree): string | null => getCurrentNode(tree)?.parentId ?? null;
+
+// The active child, falling back to the newest one
+const nextInBranch = (node: HistoryNode): string | null =>
+  node.childIds.length > 0 ? node.activeChildId ?? node.childIds[node.childIds.length - 1] : null;
+
+// Target of redo
+export const getRedoTarget = (tree: HistoryTree): string | null => {
+  const node = getCurrentNode(tree);
+  return node ? nextInBranch(node) : null;
+};
+
+// Ids sharing the node's parent (roots are siblings of each other), including the node itself
+export const getSiblingIds = (tree: HistoryTree, id: string): string[] => {
+  const node = tree.nodes[id];
+  if (!node) return [];
+  return node.parentId ? tree.nodes[node.parentId].childIds : tree.rootIds;
+};
+
+// The branch through the current node: its ancestors, then its active descendants
+export const getActiveBranch = (tree: HistoryTree): HistoryNode[] => {
+  const current = getCurrentNode(tree);
+  if (!current) return [];
+  const branch: HistoryNode[] = [current];
+  for (let node = current; node.parentId; ) {
+    node = tree.nodes[node.parentId];
+    branch.unshift(node);
+  }
+  for (let id = nextInBranch(current); id; id = nextInBranch(tree.nodes[id])) {
+    branch.push(tree.nodes[id]);
+  }
+  return branch;
+};
+
+// Tidy tree layout: leaves take consecutive rows, parents sit on their first child's row
+export const layoutHistoryTree = (tree: HistoryTree): HistoryLayout => {
+  const nodes: HistoryLayoutNode[] = [];
+  const edges: [string, string][] = [];
+  let rows = 0;
+  let depth = 0;
+
+  const place = (id: string, level: number) => {
+    const node = tree.nodes[id];
+    depth = Math.max(depth, level + 1);
+    const row = rows;
+    nodes.push({ id, depth: level, row });
+    if (node.childIds.length === 0) {
+      rows++;
+      return;
+    }
+    node.childIds.forEach(childId => {
+      edges.push([id, childId]);
+      place(childId, level + 1);
+    });
+  };
+  tree.rootIds.forEach(id => place(id, 0));
+
+  return { nodes, edges, depth, rows };
+};
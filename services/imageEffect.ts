@@ -0,0 +1,42 @@
+import { AdjustmentOperation } from "../types";
+import { BUILTIN_EFFECTS } from "./effects/builtinEffects";
+
+// Numeric parameter; the filter panel renders one slider per entry
+export interface EffectParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+}
+
+export interface EffectContext {
+  // Render size relative to full resolution, so pixel radii look the same in the downsized preview
+  scale: number;
+  // The stack entry being rendered, for effects that reference more than numbers (e.g. a LUT id)
+  operation: AdjustmentOperation;
+}
+
+export interface ImageEffect {
+  id: string; // Stored as AdjustmentOperation.type
+  label: string;
+  params: EffectParam[];
+  // Edits the pixels in place, or returns a replacement buffer (which may change the dimensions)
+  process: (image: ImageData, params: Record<string, number>, context: EffectContext) => ImageData | void;
+}
+
+const registry = new Map<string, ImageEffect>();
+
+// Later registrations win, so a plugin can replace a built-in effect.
+// Third-party effects should be registered at startup, before the app renders.
+export const registerImageEffect = (effect: ImageEffect) => {
+  registry.set(effect.id, effect);
+};
+
+export const getImageEffect = (id: string): ImageEffect | undefined => registry.get(id);
+
+export const listImageEffects = (): ImageEffect[] => Array.from(registry.values());
+
+// --- BUILT-IN EFFECTS ---
+BUILTIN_EFFECTS.forEach(registerImageEffect);
@@ -0,0 +1,82 @@
+import { GenerationOptions, GeneratedImage, ImageResolution, DetectedObject } from "../types";
+import { geminiProvider } from "./providers/geminiProvider";
+import { imagenProvider } from "./providers/imagenProvider";
+import { mockProvider } from "./providers/mockProvider";
+
+export interface ProviderCapabilities {
+  imageToImage: boolean; // Accepts a reference image on generate
+  edit: boolean;         // Supports instruction-based editing / outpainting
+  describe: boolean;     // Can caption an existing image
+  detect: boolean;       // Can return labelled bounding boxes for an existing image
+  maxBatchSize: number;  // Images a single generateBatch call can return (1 = no native batching)
+}
+
+export interface ImageProvider {
+  id: string;
+  label: string;
+  models: string[]; // GenerationOptions.model values served by this provider
+  requiresApiKey: boolean;
+  capabilities: ProviderCapabilities;
+  // Resolution tiers the backend renders natively for a model; others are upscaled client-side
+  nativeResolutions: (model: string) => ImageResolution[];
+  generate: (
+    prompt: string,
+    options: GenerationOptions,
+    inputImage?: string, // Base64 string (no prefix)
+    apiKey?: string,
+    signal?: AbortSignal
+  ) => Promise<GeneratedImage>;
+  // Native multi-image generation; providers without it are fanned out in parallel by the caller
+  generateBatch?: (
+    prompt: string,
+    options: GenerationOptions,
+    count: number,
+    inputImage?: string,
+    apiKey?: string,
+    signal?: AbortSignal
+  ) => Promise<GeneratedImage[]>;
+  // mask: optional binary PNG (white = editable) at the source image's size
+  edit: (
+    currentImage: GeneratedImage,
+    editInstruction: string,
+    options: GenerationOptions,
+    mask?: string,
+    apiKey?: string,
+    signal?: AbortSignal
+  ) => Promise<GeneratedImage>;
+  describe: (image: GeneratedImage, apiKey?: string, signal?: AbortSignal) => Promise<string>;
+  detect: (image: GeneratedImage, apiKey?: string, signal?: AbortSignal) => Promise<DetectedObject[]>;
+}
+
+const registry = new Map<string, ImageProvider>();
+
+// When set, every model resolves to the offline mock instead of a network backend
+let offlineMode = false;
+
+export const setOfflineMode = (enabled: boolean) => {
+  offlineMode = enabled;
+};
+
+export const isOfflineMode = (): boolean => offlineMode;
+
+// Later registrations win, so a custom backend can take over a built-in model id.
+export const registerImageProvider = (provider: ImageProvider) => {
+  provider.models.forEach(model => registry.set(model, provider));
+};
+
+export const resolveImageProvider = (model: string): ImageProvider => {
+  if (offlineMode) return mockProvider;
+  const provider = registry.get(model);
+  if (!provider) {
+    throw new Error(`No image provider registered for model "${model}".`);
+  }
+  return provider;
+};
+
+export const listImageProviders = (): ImageProvider[] => {
+  return Array.from(new Set(registry.values()));
+};
+
+// --- BUILT-IN PROVIDERS ---
+registerImageProvider(geminiProvider);
+registerImageProvider(imagenProvider);
@@ -1,250 +1,1002 @@
 
-import { SelectionBox, ImageAdjustments } from "../types";
+import { SelectionBox, ImageResolution, RedactMode, OutpaintExtents, ImageTransform, CropHandle, CurvePoint, ImageHistogram, ColorLut } from "../types";
 
-export const extendImage = (
+// Long-edge pixel size for each resolution tier
+export const RESOLUTION_LONG_EDGE: Record<ImageResolution, number> = {
+  [ImageResolution.RES_1K]: 1024,
+  [ImageResolution.RES_2K]: 2048,
+  [ImageResolution.RES_4K]: 4096,
+};
+
+// Grows the canvas by a uniform scale or by per-side extents; the original keeps its exact pixels.
+export const extendImage = async (
   base64Data: string,
-  scale: number = 1.5
+  extents: number | OutpaintExtents = 1.5
 ): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      // Calculate new dimensions
-      const newWidth = Math.floor(img.width * scale);
-      const newHeight = Math.floor(img.height * scale);
-      
-      canvas.width = newWidth;
-      canvas.height = newHeight;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error("Could not get canvas context"));
-        return;
-      }
+  const sides = typeof extents === 'number' ? uniformExtents(extents) : extents;
+  const img = await loadBase64Image(base64Data);
+  const newWidth = Math.round(img.width * (1 + sides.left + sides.right));
+  const newHeight = Math.round(img.height * (1 + sides.top + sides.bottom));
+  const { canvas, ctx } = createCanvas(newWidth, newHeight);
 
-      // Fill with a neutral dark color to represent "void" 
-      // Using a specific color helps the model distinguish the original content
-      ctx.fillStyle = '#1e293b'; // slate-800
-      ctx.fillRect(0, 0, newWidth, newHeight);
-      
-      // Draw original image in the center
-      const offsetX = (newWidth - img.width) / 2;
-      const offsetY = (newHeight - img.height) / 2;
-      
-      ctx.drawImage(img, offsetX, offsetY);
-      
-      const dataUrl = canvas.toDataURL('image/png');
-      // Remove the "data:image/png;base64," prefix
-      const base64 = dataUrl.split(',')[1];
-      resolve(base64);
-    };
-    img.onerror = (err) => reject(err);
-    img.src = `data:image/png;base64,${base64Data}`;
-  });
+  // Fill with a neutral dark color to represent "void" 
+  // Using a specific color helps the model distinguish the original content
+  ctx.fillStyle = '#1e293b'; // slate-800
+  ctx.fillRect(0, 0, newWidth, newHeight);
+
+  // Draw original image at its offset (centered for uniform scale)
+  const offsetX = Math.round(img.width * sides.left);
+  const offsetY = Math.round(img.height * sides.top);
+  ctx.drawImage(img, offsetX, offsetY);
+  return canvasToBase64(canvas);
+};
+
+// "21:9" -> 2.333; returns null for anything that is not a positive w:h pair
+export const parseAspectRatio = (value: string): number | null => {
+  const parts = value.split(':');
+  if (parts.length !== 2) return null;
+  const w = parseFloat(parts[0]);
+  const h = parseFloat(parts[1]);
+  if (!(w > 0) || !(h > 0)) return null;
+  return w / h;
+};
+
+export const uniformExtents = (scale: number): OutpaintExtents => {
+  const side = Math.max(0, (scale - 1) / 2);
+  return { left: side, right: side, top: side, bottom: side };
+};
+
+// Centered extents that grow only the short axis until the frame reaches width/height = ratio
+export const extentsForRatio = (width: number, height: number, ratio: number): OutpaintExtents => {
+  const current = width / height;
+  if (ratio > current) {
+    const side = (height * ratio / width - 1) / 2;
+    return { left: side, right: side, top: 0, bottom: 0 };
+  }
+  const side = (width / ratio / height - 1) / 2;
+  return { left: 0, right: 0, top: side, bottom: side };
+};
+
+// Where the original sits inside the extended frame, as a percentage SelectionBox
+export const extentsToSelection = (extents: OutpaintExtents): SelectionBox => {
+  const totalW = 1 + extents.left + extents.right;
+  const totalH = 1 + extents.top + extents.bottom;
+  return {
+    x: (extents.left / totalW) * 100,
+    y: (extents.top / totalH) * 100,
+    w: (1 / totalW) * 100,
+    h: (1 / totalH) * 100,
+  };
+};
+
+// The four strips around a box, i.e. everything the box does not cover
+export const surroundingBoxes = (box: SelectionBox): SelectionBox[] => [
+  { x: 0, y: 0, w: 100, h: box.y },
+  { x: 0, y: box.y + box.h, w: 100, h: 100 - box.y - box.h },
+  { x: 0, y: box.y, w: box.x, h: box.h },
+  { x: box.x + box.w, y: box.y, w: 100 - box.x - box.w, h: box.h },
+].filter(strip => strip.w > 0 && strip.h > 0);
+
+export const resizeImage = async (base64Data: string, width: number, height: number): Promise<string> => {
+  const img = await loadBase64Image(base64Data);
+  if (img.width === width && img.height === height) return base64Data;
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvasToBase64(canvas);
+};
+
+// Maps the model's fill onto the extended frame, then blends the untouched original back in.
+// The feather runs just inside the original's border, so the seam disappears without touching the center.
+export const blendOutpaint = async (
+  filledBase64: string,
+  extendedBase64: string,
+  placement: SelectionBox
+): Promise<string> => {
+  const { width, height } = await getImageDimensions(extendedBase64);
+  const filled = await resizeImage(filledBase64, width, height);
+  const originalMask = await createSelectionMask(extendedBase64, placement);
+  return compositeWithMask(filled, extendedBase64, originalMask);
+};
+
+// Centered crop box (percentages) that trims a width x height frame to the given ratio
+export const centerCropForRatio = (width: number, height: number, ratio: number): SelectionBox => {
+  const current = width / height;
+  if (ratio > current) {
+    const h = (current / ratio) * 100;
+    return { x: 0, y: (100 - h) / 2, w: 100, h };
+  }
+  const w = (ratio / current) * 100;
+  return { x: (100 - w) / 2, y: 0, w, h: 100 };
+};
+
+export const getImageDimensions = async (base64Data: string): Promise<{ width: number; height: number }> => {
+  const img = await loadBase64Image(base64Data);
+  return { width: img.width, height: img.height };
+};
+
+// Rescales an image so its long edge matches the requested resolution tier.
+// Upscaling is done in 2x steps, which keeps edges noticeably cleaner than a single jump.
+export const resizeToResolution = async (
+  base64Data: string,
+  resolution: ImageResolution
+): Promise<string> => {
+  const img = await loadBase64Image(base64Data);
+  const targetEdge = RESOLUTION_LONG_EDGE[resolution];
+  const longEdge = Math.max(img.width, img.height);
+  if (longEdge === targetEdge) return base64Data;
+
+  const scale = targetEdge / longEdge;
+  const targetWidth = Math.round(img.width * scale);
+  const targetHeight = Math.round(img.height * scale);
+
+  let source: CanvasImageSource = img;
+  let width = img.width;
+  let height = img.height;
+  let canvas: HTMLCanvasElement;
+
+  do {
+    width = Math.min(width * 2, targetWidth);
+    height = Math.min(height * 2, targetHeight);
+    // Downscales go straight to the target size
+    if (scale < 1) {
+      width = targetWidth;
+      height = targetHeight;
+    }
+
+    const step = createCanvas(width, height);
+    step.ctx.imageSmoothingEnabled = true;
+    step.ctx.imageSmoothingQuality = 'high';
+    step.ctx.drawImage(source, 0, 0, width, height);
+    source = canvas = step.canvas;
+  } while (width !== targetWidth || height !== targetHeight);
+
+  return canvasToBase64(canvas);
 };
 
-export const applyImageAdjustments = (
+// Blurs, pixelates or blacks out the selection (or the whole image when none is given).
+// Feathering softens the edge outward, so the selected area itself is always fully covered.
+export const applyBlur = async (
   base64Data: string,
-  adjustments: ImageAdjustments
+  intensity: number, // 0 to 20
+  selection?: SelectionBox | SelectionBox[],
+  mode: RedactMode = 'blur',
+  feather: number = 0 // Edge softness in px
 ): Promise<string> => {
+  const img = await loadBase64Image(base64Data);
+  const width = img.width;
+  const height = img.height;
+
+  // Effect layer: the whole frame with the redaction applied
+  const effect = createCanvas(width, height);
+  if (mode === 'bar') {
+    effect.ctx.fillStyle = '#000000';
+    effect.ctx.fillRect(0, 0, width, height);
+  } else if (mode === 'pixelate') {
+    // Block size scales with the image so intensity means the same thing at every resolution
+    const block = Math.max(2, Math.round(Math.min(width, height) * Math.max(1, intensity) / 400));
+    const small = createCanvas(Math.max(1, Math.ceil(width / block)), Math.max(1, Math.ceil(height / block)));
+    small.ctx.drawImage(img, 0, 0, small.canvas.width, small.canvas.height);
+    effect.ctx.imageSmoothingEnabled = false;
+    effect.ctx.drawImage(small.canvas, 0, 0, small.canvas.width * block, small.canvas.height * block);
+  } else {
+    effect.ctx.filter = `blur(${intensity}px)`;
+    effect.ctx.drawImage(img, 0, 0);
+  }
+
+  const boxes = selection ? (Array.isArray(selection) ? selection : [selection]) : [];
+  if (boxes.length === 0) return canvasToBase64(effect.canvas);
+
+  // Mask: hard boxes, plus a blurred copy underneath for the outward feather
+  const fillBoxes = (ctx: CanvasRenderingContext2D) => {
+    ctx.fillStyle = '#ffffff';
+    boxes.forEach(box => ctx.fillRect(
+      (box.x / 100) * width, (box.y / 100) * height, (box.w / 100) * width, (box.h / 100) * height
+    ));
+  };
+  const mask = createCanvas(width, height);
+  if (feather > 0) {
+    const soft = createCanvas(width, height);
+    fillBoxes(soft.ctx);
+    mask.ctx.filter = `blur(${feather}px)`;
+    mask.ctx.drawImage(soft.canvas, 0, 0);
+    mask.ctx.filter = 'none';
+  }
+  fillBoxes(mask.ctx);
+
+  effect.ctx.globalCompositeOperation = 'destination-in';
+  effect.ctx.filter = 'none';
+  effect.ctx.drawImage(mask.canvas, 0, 0);
+
+  const out = createCanvas(width, height);
+  out.ctx.drawImage(img, 0, 0);
+  out.ctx.drawImage(effect.canvas, 0, 0);
+  return canvasToBase64(out.canvas);
+};
+
+export const IDENTITY_TRANSFORM: ImageTransform = { quarterTurns: 0, angle: 0, flipH: false, flipV: false, straighten: true };
+
+// Renders the rotated/flipped frame a crop box is drawn against.
+// With straighten on, a free angle is trimmed to the largest same-aspect rectangle with no empty corners.
+export const transformImage = async (base64Data: string, transform: ImageTransform): Promise<string> => {
+  const img = await loadBase64Image(base64Data);
+  const turns = ((transform.quarterTurns % 4) + 4) % 4;
+  if (turns === 0 && transform.angle === 0 && !transform.flipH && !transform.flipV) return base64Data;
+
+  // Upright size after the quarter turns
+  const w = turns % 2 ? img.height : img.width;
+  const h = turns % 2 ? img.width : img.height;
+  const theta = (transform.angle * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(theta));
+  const sin = Math.abs(Math.sin(theta));
+
+  let outW = Math.round(w * cos + h * sin);
+  let outH = Math.round(w * sin + h * cos);
+  if (transform.straighten && transform.angle !== 0) {
+    const scale = Math.min(w / (w * cos + h * sin), h / (w * sin + h * cos));
+    outW = Math.round(w * scale);
+    outH = Math.round(h * scale);
+  }
+
+  const { canvas, ctx } = createCanvas(outW, outH);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(outW / 2, outH / 2);
+  ctx.scale(transform.flipH ? -1 : 1, transform.flipV ? -1 : 1);
+  ctx.rotate((turns * Math.PI) / 2 + theta);
+  ctx.drawImage(img, -img.width / 2, -img.height / 2);
+  return canvasToBase64(canvas);
+};
+
+const MIN_CROP_PCT = 2;
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Largest box with the given pixel ratio that fits inside `box`, sharing its center
+export const fitBoxToRatio = (box: SelectionBox, ratio: number, frameWidth: number, frameHeight: number): SelectionBox => {
+  // Percent height that pairs with a percent width at this ratio
+  const heightFor = (w: number) => (w * frameWidth) / (frameHeight * ratio);
+  let w = box.w;
+  let h = heightFor(w);
+  if (h > box.h) {
+    h = box.h;
+    w = (h * frameHeight * ratio) / frameWidth;
+  }
+  return { x: box.x + (box.w - w) / 2, y: box.y + (box.h - h) / 2, w, h };
+};
+
+// Applies a handle drag (dx/dy in percent of the frame) to the box it started from.
+// With a ratio lock only corners and move are meaningful; the dragged corner's opposite stays anchored.
+export const dragCropBox = (
+  start: SelectionBox,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  lock?: { ratio: number; frameWidth: number; frameHeight: number }
+): SelectionBox => {
+  if (handle === 'move') {
+    return { ...start, x: clamp(start.x + dx, 0, 100 - start.w), y: clamp(start.y + dy, 0, 100 - start.h) };
+  }
+
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.w;
+  let bottom = start.y + start.h;
+  if (handle.includes('w')) left = clamp(left + dx, 0, right - MIN_CROP_PCT);
+  if (handle.includes('e')) right = clamp(right + dx, left + MIN_CROP_PCT, 100);
+  if (handle.includes('n')) top = clamp(top + dy, 0, bottom - MIN_CROP_PCT);
+  if (handle.includes('s')) bottom = clamp(bottom + dy, top + MIN_CROP_PCT, 100);
+
+  if (lock && handle.length === 2) {
+    const toHeight = (w: number) => (w * lock.frameWidth) / (lock.frameHeight * lock.ratio);
+    const toWidth = (h: number) => (h * lock.frameHeight * lock.ratio) / lock.frameWidth;
+    let w = right - left;
+    let h = toHeight(w);
+    // Room available above or below the anchored edge
+    const room = handle.includes('n') ? bottom : 100 - top;
+    if (h > room) {
+      h = room;
+      w = toWidth(h);
+    }
+    if (handle.includes('w')) left = right - w; else right = left + w;
+    if (handle.includes('n')) top = bottom - h; else bottom = top + h;
+  }
+
+  return { x: left, y: top, w: right - left, h: bottom - top };
+};
+
+export const cropImage = async (base64Data: string, crop: SelectionBox): Promise<string> => {
+  const img = await loadBase64Image(base64Data);
+  // Convert percentages to whole pixels once, so the canvas size and the source rectangle agree
+  // (a fractional canvas size is truncated, which shifts edges and drifts a locked ratio)
+  const x = clamp(Math.round((crop.x / 100) * img.width), 0, img.width - 1);
+  const y = clamp(Math.round((crop.y / 100) * img.height), 0, img.height - 1);
+  const w = clamp(Math.round((crop.w / 100) * img.width), 1, img.width - x);
+  const h = clamp(Math.round((crop.h / 100) * img.height), 1, img.height - y);
+
+  const { canvas, ctx } = createCanvas(w, h);
+  ctx.drawImage(img, x, y, w, h, 0, 0, w, h);
+  return canvasToBase64(canvas);
+};
+
+// The single decode path: every image (and the watermark SVG) is loaded through here
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        reject(new Error("Could not get canvas context"));
-        return;
-      }
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+};
+
+const loadBase64Image = (base64Data: string): Promise<HTMLImageElement> => loadImage(`data:image/png;base64,${base64Data}`);
+
+const createCanvas = (width: number, height: number, willReadFrequently: boolean = false) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently });
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+const canvasToBase64 = (canvas: HTMLCanvasElement): string => canvas.toDataURL('image/png').split(',')[1];
 
-      // Build filter string
-      const filterString = `
-        brightness(${adjustments.brightness}%) 
-        contrast(${adjustments.contrast}%) 
-        saturate(${adjustments.saturation}%) 
-        blur(${adjustments.blur}px) 
-        sepia(${adjustments.sepia}%) 
-        grayscale(${adjustments.grayscale}%)
-      `;
-
-      ctx.filter = filterString;
-      ctx.drawImage(img, 0, 0);
-      
-      const dataUrl = canvas.toDataURL('image/png');
-      resolve(dataUrl.split(',')[1]);
-    };
-    img.onerror = (err) => reject(err);
-    img.src = `data:image/png;base64,${base64Data}`;
+export const base64ToBlob = (base64Data: string, mimeType: string = 'image/png'): Blob => {
+  const binary = atob(base64Data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
   });
 };
 
-export const applyBlur = (
+// Stable content id for an uploaded image: the first 16 hex digits of its SHA-256
+export const hashBase64 = async (base64Data: string): Promise<string> => {
+  const bytes = await base64ToBlob(base64Data).arrayBuffer();
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest.subarray(0, 8), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Small JPEG preview for archive grids
+export const createThumbnail = async (base64Data: string, maxEdge: number = 320): Promise<Blob> => {
+  const img = await loadBase64Image(base64Data);
+  const scale = Math.min(1, maxEdge / Math.max(img.width, img.height));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(img.width * scale)), Math.max(1, Math.round(img.height * scale)));
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode thumbnail")), 'image/jpeg', 0.8);
+  });
+};
+
+// Shared decode -> ImageData -> encode pipeline for pixel effects. maxEdge downsizes first (for previews).
+// The callback edits the pixels in place or returns a replacement, which may have different dimensions.
+export const renderImageData = async (
   base64Data: string,
-  intensity: number, // 0 to 20
-  selection?: SelectionBox
+  process: (image: ImageData, scale: number) => ImageData | void,
+  maxEdge?: number
+): Promise<string> => {
+  const img = await loadBase64Image(base64Data);
+  const scale = maxEdge ? Math.min(1, maxEdge / Math.max(img.width, img.height)) : 1;
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(img.width * scale)), Math.max(1, Math.round(img.height * scale)), true);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const source = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const result = process(source, scale) || source;
+  if (result.width !== canvas.width || result.height !== canvas.height) {
+    canvas.width = result.width;
+    canvas.height = result.height;
+  }
+  ctx.putImageData(result, 0, 0);
+  return canvasToBase64(canvas);
+};
+
+// Renders a binary mask PNG at the source image's size: white = region(s) to edit, black = keep.
+export const createSelectionMask = async (
+  base64Data: string,
+  selection: SelectionBox | SelectionBox[]
 ): Promise<string> => {
-  return applyImageAdjustments(base64Data, {
-      brightness: 100, contrast: 100, saturation: 100, sepia: 0, grayscale: 0,
-      blur: intensity
+  const img = await loadBase64Image(base64Data);
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#ffffff';
+  (Array.isArray(selection) ? selection : [selection]).forEach(box => {
+    ctx.fillRect(
+      Math.round((box.x / 100) * img.width),
+      Math.round((box.y / 100) * img.height),
+      Math.round((box.w / 100) * img.width),
+      Math.round((box.h / 100) * img.height)
+    );
   });
+  return canvasToBase64(canvas);
 };
 
-export const cropImage = (
-    base64Data: string,
-    crop: SelectionBox
+// Blends an edited image back over the original through a mask, replacing only the white area.
+// The feather fades inward from the mask edge, so pixels outside the mask are never touched.
+export const compositeWithMask = async (
+  originalBase64: string,
+  editedBase64: string,
+  maskBase64: string,
+  feather?: number // Blur radius in px; defaults to 1% of the short edge
 ): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            
-            // Convert percentages to pixels
-            const x = (crop.x / 100) * img.width;
-            const y = (crop.y / 100) * img.height;
-            const w = (crop.w / 100) * img.width;
-            const h = (crop.h / 100) * img.height;
-
-            canvas.width = w;
-            canvas.height = h;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-                reject(new Error("No context"));
-                return;
-            }
-
-            ctx.drawImage(img, x, y, w, h, 0, 0, w, h);
-            resolve(canvas.toDataURL('image/png').split(',')[1]);
-        };
-        img.onerror = reject;
-        img.src = `data:image/png;base64,${base64Data}`;
-    });
-};
-
-// Applies a convolution matrix for edge detection (Laplacian)
-export const applyOutline = (base64Data: string): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        reject(new Error("Could not get canvas context"));
-        return;
-      }
+  const [original, edited, mask] = await Promise.all([
+    loadBase64Image(originalBase64),
+    loadBase64Image(editedBase64),
+    loadBase64Image(maskBase64),
+  ]);
+  const width = original.width;
+  const height = original.height;
+  const radius = feather ?? Math.max(2, Math.round(Math.min(width, height) * 0.01));
 
-      ctx.drawImage(img, 0, 0);
-      
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-      const width = canvas.width;
-      const height = canvas.height;
-
-      // Create output buffer
-      const outputData = ctx.createImageData(width, height);
-      const output = outputData.data;
-
-      // Simple Edge Detection Kernel (Laplacian)
-      //  0  1  0
-      //  1 -4  1
-      //  0  1  0
-      const kernel = [0, 1, 0, 1, -4, 1, 0, 1, 0];
-
-      for (let y = 1; y < height - 1; y++) {
-        for (let x = 1; x < width - 1; x++) {
-          let r = 0, g = 0, b = 0;
-
-          for (let ky = -1; ky <= 1; ky++) {
-            for (let kx = -1; kx <= 1; kx++) {
-              const idx = ((y + ky) * width + (x + kx)) * 4;
-              const kVal = kernel[(ky + 1) * 3 + (kx + 1)];
-              
-              r += data[idx] * kVal;
-              g += data[idx + 1] * kVal;
-              b += data[idx + 2] * kVal;
-            }
-          }
+  const draw = (source: CanvasImageSource, filter = 'none') => {
+    const { ctx } = createCanvas(width, height, true);
+    ctx.filter = filter;
+    // The model may answer at a different size; everything is mapped onto the original frame
+    ctx.drawImage(source, 0, 0, width, height);
+    return ctx;
+  };
+
+  const outCtx = draw(original);
+  const out = outCtx.getImageData(0, 0, width, height);
+  const edit = draw(edited).getImageData(0, 0, width, height).data;
+  const hard = draw(mask).getImageData(0, 0, width, height).data;
+  const soft = draw(mask, radius > 0 ? `blur(${radius}px)` : 'none').getImageData(0, 0, width, height).data;
+
+  const data = out.data;
+  for (let i = 0; i < data.length; i += 4) {
+    if (hard[i] === 0) continue;
+    // The blurred mask sits at ~50% on the hard edge; remap so alpha reaches 0 exactly there.
+    // Grey mask pixels (soft brush edges) cap the blend at their own level.
+    const alpha = Math.min(hard[i] / 255, Math.max(0, Math.min(1, (soft[i] / 255) * 2 - 1)));
+    if (alpha === 0) continue;
+    data[i] = data[i] + (edit[i] - data[i]) * alpha;
+    data[i + 1] = data[i + 1] + (edit[i + 1] - data[i + 1]) * alpha;
+    data[i + 2] = data[i + 2] + (edit[i + 2] - data[i + 2]) * alpha;
+  }
+
+  outCtx.putImageData(out, 0, 0);
+  return canvasToBase64(outCtx.canvas);
+};
 
-          // Calculate magnitude and invert for dark lines on light or light on dark
-          // We'll make edges bright (cyan) and background dark
-          const mag = Math.abs(r) + Math.abs(g) + Math.abs(b);
-          const val = Math.min(255, mag);
-
-          const i = (y * width + x) * 4;
-          
-          // Stylistic choice: Cyan edges on dark background
-          if (val > 30) {
-             output[i] = 34;     // R
-             output[i + 1] = 211; // G (Cyan-ish)
-             output[i + 2] = 238; // B
-             output[i + 3] = 255; // Alpha
-          } else {
-             // Background
-             output[i] = 2;
-             output[i + 1] = 6;
-             output[i + 2] = 23;
-             output[i + 3] = 255;
+// Applies a convolution matrix for edge detection (Laplacian).
+// Returns a new buffer since every output pixel reads its unmodified neighbours.
+export const applyOutline = (image: ImageData, threshold: number = 30): ImageData => {
+  const { width, height, data } = image;
+  const outputData = new ImageData(width, height);
+  const output = outputData.data;
+
+  // Simple Edge Detection Kernel (Laplacian)
+  //  0  1  0
+  //  1 -4  1
+  //  0  1  0
+  const kernel = [0, 1, 0, 1, -4, 1, 0, 1, 0];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      let val = 0;
+
+      // The one-pixel frame has no full neighbourhood and stays background
+      if (y > 0 && x > 0 && y < height - 1 && x < width - 1) {
+        let r = 0, g = 0, b = 0;
+        for (let ky = -1; ky <= 1; ky++) {
+          for (let kx = -1; kx <= 1; kx++) {
+            const idx = ((y + ky) * width + (x + kx)) * 4;
+            const kVal = kernel[(ky + 1) * 3 + (kx + 1)];
+
+            r += data[idx] * kVal;
+            g += data[idx + 1] * kVal;
+            b += data[idx + 2] * kVal;
           }
         }
+        // Edges bright (cyan), background dark
+        val = Math.min(255, Math.abs(r) + Math.abs(g) + Math.abs(b));
+      }
+
+      // Stylistic choice: Cyan edges on dark background
+      if (val > threshold) {
+        output[i] = 34;      // R
+        output[i + 1] = 211; // G (Cyan-ish)
+        output[i + 2] = 238; // B
+      } else {
+        output[i] = 2;
+        output[i + 1] = 6;
+        output[i + 2] = 23;
       }
+      output[i + 3] = 255;
+    }
+  }
+  return outputData;
+};
+
+// --- PIXEL ADJUSTMENTS ---
+// These work on ImageData in place so a stack of them can share one getImageData/putImageData round trip.
+
+const clampByte = (value: number) => value < 0 ? 0 : value > 255 ? 255 : value;
+
+// Maps every RGB channel (or one LUT per channel) through 256-entry lookup tables
+const applyLuts = (image: ImageData, r: Uint8ClampedArray, g: Uint8ClampedArray = r, b: Uint8ClampedArray = r) => {
+  const data = image.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = r[data[i]];
+    data[i + 1] = g[data[i + 1]];
+    data[i + 2] = b[data[i + 2]];
+  }
+};
+
+const buildLut = (fn: (value: number) => number): Uint8ClampedArray => {
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) lut[v] = Math.round(fn(v));
+  return lut;
+};
+
+// 3x3 RGB matrix, row-major: each output channel is a weighted sum of the input channels
+const applyColorMatrix = (image: ImageData, m: number[]) => {
+  const data = image.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    data[i] = m[0] * r + m[1] * g + m[2] * b;
+    data[i + 1] = m[3] * r + m[4] * g + m[5] * b;
+    data[i + 2] = m[6] * r + m[7] * g + m[8] * b;
+  }
+};
+
+// The basic tone operations below follow the CSS filter definitions, so results match the old filter pass.
+// Amounts are percentages as in CSS (brightness 100 = unchanged, sepia 100 = full effect).
+export const applyBrightness = (image: ImageData, percent: number) => {
+  const k = percent / 100;
+  applyLuts(image, buildLut(v => v * k));
+};
+
+export const applyContrast = (image: ImageData, percent: number) => {
+  const k = percent / 100;
+  applyLuts(image, buildLut(v => (v - 127.5) * k + 127.5));
+};
+
+export const applySaturation = (image: ImageData, percent: number) => {
+  const s = percent / 100;
+  applyColorMatrix(image, [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ]);
+};
+
+export const applySepia = (image: ImageData, percent: number) => {
+  const k = 1 - Math.min(1, percent / 100);
+  applyColorMatrix(image, [
+    0.393 + 0.607 * k, 0.769 - 0.769 * k, 0.189 - 0.189 * k,
+    0.349 - 0.349 * k, 0.686 + 0.314 * k, 0.168 - 0.168 * k,
+    0.272 - 0.272 * k, 0.534 - 0.534 * k, 0.131 + 0.869 * k,
+  ]);
+};
+
+export const applyGrayscale = (image: ImageData, percent: number) => {
+  const k = 1 - Math.min(1, percent / 100);
+  applyColorMatrix(image, [
+    0.2126 + 0.7874 * k, 0.7152 - 0.7152 * k, 0.0722 - 0.0722 * k,
+    0.2126 - 0.2126 * k, 0.7152 + 0.2848 * k, 0.0722 - 0.0722 * k,
+    0.2126 - 0.2126 * k, 0.7152 - 0.7152 * k, 0.0722 + 0.9278 * k,
+  ]);
+};
 
-      ctx.putImageData(outputData, 0, 0);
-      const dataUrl = canvas.toDataURL('image/png');
-      resolve(dataUrl.split(',')[1]);
-    };
-    img.onerror = (err) => reject(err);
-    img.src = `data:image/png;base64,${base64Data}`;
+// Input black/white points with a midtone gamma, then remapped to the output range
+export const applyLevels = (
+  image: ImageData,
+  inBlack: number,
+  inWhite: number,
+  gamma: number = 1,
+  outBlack: number = 0,
+  outWhite: number = 255
+) => {
+  const range = Math.max(1, inWhite - inBlack);
+  const lut = buildLut(v => {
+    const t = Math.max(0, Math.min(1, (v - inBlack) / range));
+    return outBlack + Math.pow(t, 1 / Math.max(0.01, gamma)) * (outWhite - outBlack);
   });
+  applyLuts(image, lut);
 };
 
-export const applyWatermark = (base64Data: string): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error("Could not get canvas context"));
-        return;
+// Monotone cubic (Fritsch-Carlson) through the control points, so curves never overshoot between them
+export const buildCurveLut = (points: CurvePoint[]): Uint8ClampedArray => {
+  const pts = [...points].sort((a, b) => a.x - b.x).filter((p, i, arr) => i === 0 || p.x > arr[i - 1].x);
+  if (pts.length < 2) return buildLut(v => v);
+
+  const n = pts.length;
+  const secants: number[] = [];
+  for (let i = 0; i < n - 1; i++) secants.push((pts[i + 1].y - pts[i].y) / (pts[i + 1].x - pts[i].x));
+  const tangents = pts.map((_, i) => i === 0 ? secants[0] : i === n - 1 ? secants[n - 2] : (secants[i - 1] + secants[i]) / 2);
+  for (let i = 0; i < n - 1; i++) {
+    if (secants[i] === 0) {
+      tangents[i] = tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / secants[i];
+    const b = tangents[i + 1] / secants[i];
+    if (a < 0) tangents[i] = 0;
+    if (b < 0) tangents[i + 1] = 0;
+    const s = a * a + b * b;
+    if (s > 9) {
+      const k = 3 / Math.sqrt(s);
+      tangents[i] = k * a * secants[i];
+      tangents[i + 1] = k * b * secants[i];
+    }
+  }
+
+  let seg = 0;
+  return buildLut(v => {
+    if (v <= pts[0].x) return pts[0].y;
+    if (v >= pts[n - 1].x) return pts[n - 1].y;
+    while (v > pts[seg + 1].x) seg++;
+    const h = pts[seg + 1].x - pts[seg].x;
+    const t = (v - pts[seg].x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * pts[seg].y
+      + (t3 - 2 * t2 + t) * h * tangents[seg]
+      + (-2 * t3 + 3 * t2) * pts[seg + 1].y
+      + (t3 - t2) * h * tangents[seg + 1];
+  });
+};
+
+// A master curve applied to all channels, followed by optional per-channel curves
+export const applyCurves = (image: ImageData, master: CurvePoint[], red?: CurvePoint[], green?: CurvePoint[], blue?: CurvePoint[]) => {
+  const masterLut = buildCurveLut(master);
+  const compose = (channel?: CurvePoint[]) => {
+    if (!channel) return masterLut;
+    const channelLut = buildCurveLut(channel);
+    return buildLut(v => channelLut[masterLut[v]]);
+  };
+  applyLuts(image, compose(red), compose(green), compose(blue));
+};
+
+const rgbToHsl = (r: number, g: number, b: number): [number, number, number] => {
+  r /= 255; g /= 255; b /= 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return [h / 6, s, l];
+};
+
+const hueToChannel = (p: number, q: number, t: number) => {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+  return p;
+};
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  if (s === 0) return [l * 255, l * 255, l * 255];
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  return [hueToChannel(p, q, h + 1 / 3) * 255, hueToChannel(p, q, h) * 255, hueToChannel(p, q, h - 1 / 3) * 255];
+};
+
+// Rotates hue by the given degrees; saturation and lightness shifts are in percent (-100 to 100)
+export const applyHueShift = (image: ImageData, degrees: number, saturation: number = 0, lightness: number = 0) => {
+  const data = image.data;
+  const shift = degrees / 360;
+  const satScale = 1 + saturation / 100;
+  const lightShift = lightness / 200;
+  for (let i = 0; i < data.length; i += 4) {
+    const [h, s, l] = rgbToHsl(data[i], data[i + 1], data[i + 2]);
+    const [r, g, b] = hslToRgb(
+      (h + shift + 1) % 1,
+      Math.max(0, Math.min(1, s * satScale)),
+      Math.max(0, Math.min(1, l + lightShift))
+    );
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+};
+
+// White balance: temperature warms (+) or cools (-), tint pushes magenta (+) or green (-). Both -100 to 100.
+export const applyTemperature = (image: ImageData, temperature: number, tint: number = 0) => {
+  const warm = temperature / 100;
+  const rGain = 1 + warm * 0.25;
+  const bGain = 1 - warm * 0.25;
+  const gGain = 1 - (tint / 100) * 0.2;
+  applyLuts(image, buildLut(v => v * rGain), buildLut(v => v * gGain), buildLut(v => v * bGain));
+};
+
+// Saturation that favours muted colours, leaving already-saturated areas (often skin) mostly alone
+export const applyVibrance = (image: ImageData, amount: number) => {
+  const data = image.data;
+  const strength = amount / 100;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const max = Math.max(r, g, b);
+    const sat = max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+    const factor = 1 + strength * (1 - sat);
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    data[i] = luma + (r - luma) * factor;
+    data[i + 1] = luma + (g - luma) * factor;
+    data[i + 2] = luma + (b - luma) * factor;
+  }
+};
+
+// Darkens (+) or lightens (-) toward the corners. Midpoint and feather are 0-100.
+export const applyVignette = (image: ImageData, amount: number, midpoint: number = 50, feather: number = 50) => {
+  const { width, height, data } = image;
+  const strength = amount / 100;
+  const start = midpoint / 100;
+  const end = start + Math.max(0.01, feather / 100);
+  const cx = width / 2;
+  const cy = height / 2;
+  for (let y = 0; y < height; y++) {
+    const ny = (y + 0.5 - cy) / cy;
+    for (let x = 0; x < width; x++) {
+      const nx = (x + 0.5 - cx) / cx;
+      const d = Math.sqrt(nx * nx + ny * ny) / Math.SQRT2;
+      const t = Math.max(0, Math.min(1, (d - start) / (end - start)));
+      const falloff = t * t * (3 - 2 * t);
+      if (falloff === 0) continue;
+      const i = (y * width + x) * 4;
+      const factor = 1 - strength * falloff;
+      if (strength >= 0) {
+        data[i] *= factor;
+        data[i + 1] *= factor;
+        data[i + 2] *= factor;
+      } else {
+        const lift = -strength * falloff;
+        data[i] += (255 - data[i]) * lift;
+        data[i + 1] += (255 - data[i + 1]) * lift;
+        data[i + 2] += (255 - data[i + 2]) * lift;
+      }
+    }
+  }
+};
+
+// One horizontal + vertical running-sum box blur over the RGB channels
+const boxBlurRgb = (src: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+  const tmp = new Uint8ClampedArray(src.length);
+  const out = new Uint8ClampedArray(src.length);
+  const size = radius * 2 + 1;
+  for (let y = 0; y < height; y++) {
+    for (let c = 0; c < 3; c++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) sum += src[(y * width + Math.min(width - 1, Math.max(0, k))) * 4 + c];
+      for (let x = 0; x < width; x++) {
+        tmp[(y * width + x) * 4 + c] = sum / size;
+        const add = Math.min(width - 1, x + radius + 1);
+        const remove = Math.max(0, x - radius);
+        sum += src[(y * width + add) * 4 + c] - src[(y * width + remove) * 4 + c];
+      }
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    for (let c = 0; c < 3; c++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) sum += tmp[(Math.min(height - 1, Math.max(0, k)) * width + x) * 4 + c];
+      for (let y = 0; y < height; y++) {
+        out[(y * width + x) * 4 + c] = sum / size;
+        const add = Math.min(height - 1, y + radius + 1);
+        const remove = Math.max(0, y - radius);
+        sum += tmp[(add * width + x) * 4 + c] - tmp[(remove * width + x) * 4 + c];
       }
+    }
+  }
+  return out;
+};
+
+// Approximates a gaussian of the given standard deviation (px) with three box passes
+const gaussianBlurRgb = (src: Uint8ClampedArray, width: number, height: number, sigma: number): Uint8ClampedArray => {
+  const radius = Math.max(1, Math.round(sigma));
+  let blurred = boxBlurRgb(src, width, height, radius);
+  blurred = boxBlurRgb(blurred, width, height, radius);
+  return boxBlurRgb(blurred, width, height, radius);
+};
+
+export const applyGaussianBlur = (image: ImageData, sigma: number) => {
+  if (sigma < 0.5) return;
+  const { width, height, data } = image;
+  const blurred = gaussianBlurRgb(data, width, height, sigma);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = blurred[i];
+    data[i + 1] = blurred[i + 1];
+    data[i + 2] = blurred[i + 2];
+  }
+};
+
+// Sharpens by adding back the difference from a blurred copy. Amount is percent, radius px,
+// threshold the minimum difference (0-255) that gets sharpened, which keeps flat areas and noise clean.
+export const applyUnsharpMask = (image: ImageData, amount: number, radius: number, threshold: number = 0) => {
+  const { width, height, data } = image;
+  const blurred = gaussianBlurRgb(data, width, height, radius);
+  const strength = amount / 100;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const diff = data[i + c] - blurred[i + c];
+      if (Math.abs(diff) >= threshold) data[i + c] = clampByte(data[i + c] + diff * strength);
+    }
+  }
+};
+
+// Integer hash for repeatable noise: the same seed always renders the same grain
+const hashNoise = (x: number, y: number, seed: number) => {
+  let h = (x * 374761393 + y * 668265263 + seed * 2147483647) | 0;
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+};
+
+// Monochrome film grain, strongest in the midtones. Size is the grain cell in px.
+export const applyGrain = (image: ImageData, amount: number, size: number = 1, seed: number = 0) => {
+  const { width, height, data } = image;
+  const cell = Math.max(1, Math.round(size));
+  const strength = (amount / 100) * 64;
+  for (let y = 0; y < height; y++) {
+    const gy = Math.floor(y / cell);
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const luma = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+      const noise = (hashNoise(Math.floor(x / cell), gy, seed) - 0.5) * strength * (1 - Math.abs(luma - 0.5));
+      data[i] = clampByte(data[i] + noise);
+      data[i + 1] = clampByte(data[i + 1] + noise);
+      data[i + 2] = clampByte(data[i + 2] + noise);
+    }
+  }
+};
+
+export const computeHistogram = (image: ImageData): ImageHistogram => {
+  const histogram: ImageHistogram = {
+    r: new Uint32Array(256),
+    g: new Uint32Array(256),
+    b: new Uint32Array(256),
+    luma: new Uint32Array(256)
+  };
+  const data = image.data;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    histogram.r[data[i]]++;
+    histogram.g[data[i + 1]]++;
+    histogram.b[data[i + 2]]++;
+    histogram.luma[Math.round(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2])]++;
+  }
+  return histogram;
+};
+
+// Histogram of an encoded image, sampled at a reduced size since only the distribution matters
+export const getImageHistogram = async (base64Data: string, maxEdge: number = 512): Promise<ImageHistogram> => {
+  const img = await loadBase64Image(base64Data);
+  const scale = Math.min(1, maxEdge / Math.max(img.width, img.height));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(img.width * scale)), Math.max(1, Math.round(img.height * scale)), true);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return computeHistogram(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+// --- COLOR LUTS ---
+const MAX_LUT_3D_SIZE = 256;
+const MAX_LUT_1D_SIZE = 65536;
 
-      // Draw original
-      ctx.drawImage(img, 0, 0);
-
-      // Create Watermark Image from SVG
-      const watermark = new Image();
-      watermark.onload = () => {
-          // Calculate size relative to image MIN dimension to ensure consistency across ratios
-          // 10% of the smallest side
-          const targetWidth = Math.max(60, Math.min(img.width, img.height) * 0.10); 
-          const aspectRatio = 710.52 / 767.9; // Based on new viewBox
-          const targetHeight = targetWidth / aspectRatio;
-
-          const padding = Math.max(15, Math.min(img.width, img.height) * 0.02);
-
-          const x = img.width - targetWidth - padding;
-          const y = img.height - targetHeight - padding;
-
-          ctx.globalAlpha = 0.5; // Reverted to 0.5 per user request
-          // Add a glow/shadow backing for legibility in case the gray blends in
-          ctx.shadowColor = "rgba(0,0,0,0.8)";
-          ctx.shadowBlur = 4;
-          ctx.drawImage(watermark, x, y, targetWidth, targetHeight);
-          ctx.shadowBlur = 0;
-          ctx.globalAlpha = 1.0;
-
-          resolve(canvas.toDataURL('image/png').split(',')[1]);
-      };
-      
-      // SVG Data URI (Provided content)
-      const svgString = `
+// Parses an Adobe/Resolve .cube file. Throws with a readable message when the file is malformed.
+export const parseCubeLut = (text: string, fallbackName: string): Omit<ColorLut, 'id'> => {
+  let name = fallbackName;
+  let dimension: 1 | 3 | null = null;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  const parseTriplet = (parts: string[], keyword: string): [number, number, number] => {
+    const nums = parts.slice(1, 4).map(Number);
+    if (nums.length !== 3 || nums.some(n => !Number.isFinite(n))) throw new Error(`Invalid ${keyword} line`);
+    return [nums[0], nums[1], nums[2]];
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+
+    if (keyword === 'TITLE') {
+      const title = line.slice(5).trim().replace(/^"|"$/g, '');
+      if (title) name = title;
+    } else if (keyword === 'LUT_3D_SIZE' || keyword === 'LUT_1D_SIZE') {
+      dimension = keyword === 'LUT_3D_SIZE' ? 3 : 1;
+      size = parseInt(parts[1], 10);
+      const max = dimension === 3 ? MAX_LUT_3D_SIZE : MAX_LUT_1D_SIZE;
+      if (!Number.isInteger(size) || size < 2 || size > max) throw new Error(`Unsupported ${keyword} ${parts[1]}`);
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriplet(parts, keyword);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriplet(parts, keyword);
+    } else if (keyword === 'LUT_1D_INPUT_RANGE' || keyword === 'LUT_3D_INPUT_RANGE') {
+      // Resolve's single-range form applies to all three channels
+      const [min, max] = parts.slice(1, 3).map(Number);
+      if (!Number.isFinite(min) || !Number.isFinite(max)) throw new Error(`Invalid ${keyword} line`);
+      domainMin = [min, min, min];
+      domainMax = [max, max, max];
+    } else if (/^[-+.\d]/.test(keyword)) {
+      const triplet = parts.map(Number);
+      if (triplet.length !== 3 || triplet.some(n => !Number.isFinite(n))) throw new Error(`Invalid table row: "${line}"`);
+      values.push(triplet[0], triplet[1], triplet[2]);
+    }
+    // Other keywords (e.g. LUT_IN_VIDEO_RANGE) don't affect the mapping and are ignored
+  }
+
+  if (!dimension) throw new Error("Missing LUT_1D_SIZE or LUT_3D_SIZE");
+  const expected = (dimension === 3 ? size * size * size : size) * 3;
+  if (values.length !== expected) throw new Error(`Expected ${expected / 3} table rows, found ${values.length / 3}`);
+  if (domainMin.some((min, i) => domainMax[i] <= min)) throw new Error("DOMAIN_MAX must exceed DOMAIN_MIN");
+
+  return { name, dimension, size, domainMin, domainMax, table: new Float32Array(values) };
+};
+
+// Maps each 8-bit input value onto a table axis once, so the pixel loop only does lookups
+const buildLutAxis = (size: number, min: number, max: number) => {
+  const index = new Uint16Array(256);
+  const frac = new Float32Array(256);
+  for (let v = 0; v < 256; v++) {
+    const t = Math.max(0, Math.min(1, (v / 255 - min) / (max - min))) * (size - 1);
+    const i = Math.min(size - 2, Math.floor(t));
+    index[v] = i;
+    frac[v] = t - i;
+  }
+  return { index, frac };
+};
+
+// Applies a LUT in place, 1D by linear and 3D by trilinear interpolation.
+// Intensity (0-1) blends between the original and the graded pixel.
+export const applyLut = (image: ImageData, lut: ColorLut, intensity: number = 1) => {
+  const data = image.data;
+  const { size, table } = lut;
+  const mix = Math.max(0, Math.min(1, intensity));
+  if (mix === 0) return;
+  const axes = [0, 1, 2].map(c => buildLutAxis(size, lut.domainMin[c], lut.domainMax[c]));
+
+  if (lut.dimension === 1) {
+    const luts = [0, 1, 2].map(c => buildLut(v => {
+      const { index, frac } = axes[c];
+      const i = index[v];
+      const out = table[i * 3 + c] + (table[(i + 1) * 3 + c] - table[i * 3 + c]) * frac[v];
+      return v + (out * 255 - v) * mix;
+    }));
+    applyLuts(image, luts[0], luts[1], luts[2]);
+    return;
+  }
+
+  const strideG = size;
+  const strideB = size * size;
+  for (let p = 0; p < data.length; p += 4) {
+    const r = data[p], g = data[p + 1], b = data[p + 2];
+    const ri = axes[0].index[r], gi = axes[1].index[g], bi = axes[2].index[b];
+    const rf = axes[0].frac[r], gf = axes[1].frac[g], bf = axes[2].frac[b];
+    // Corners of the enclosing cell, as offsets into the RGB table
+    const o000 = (ri + gi * strideG + bi * strideB) * 3;
+    const o010 = o000 + strideG * 3;
+    const o001 = o000 + strideB * 3;
+    const o011 = o010 + strideB * 3;
+    for (let c = 0; c < 3; c++) {
+      const c00 = table[o000 + c] + (table[o000 + 3 + c] - table[o000 + c]) * rf;
+      const c10 = table[o010 + c] + (table[o010 + 3 + c] - table[o010 + c]) * rf;
+      const c01 = table[o001 + c] + (table[o001 + 3 + c] - table[o001 + c]) * rf;
+      const c11 = table[o011 + c] + (table[o011 + 3 + c] - table[o011 + c]) * rf;
+      const c0 = c00 + (c10 - c00) * gf;
+      const c1 = c01 + (c11 - c01) * gf;
+      const graded = (c0 + (c1 - c0) * bf) * 255;
+      data[p + c] = data[p + c] + (graded - data[p + c]) * mix;
+    }
+  }
+};
+
+export const applyWatermark = async (base64Data: string): Promise<string> => {
+  // SVG Data URI (Provided content)
+  const svgString = `
 <svg id="Layer_2" data-name="Layer 2" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 710.52 767.9">
   <defs>
     <style>
@@ -278,11 +1030,35 @@ export const applyWatermark = (base64Data: string): Promise<string> => {
   <polygon class="cls-2" points="421.52 199.9 357.93 291.81 353.09 294.97 287.52 199.9 421.52 199.9"/>
   <path class="cls-2" d="M354.17,0l132.17,188.56-130.44,188.26-3.84-1.98c-42.84-62.1-87.87-122.58-129.35-185.6L354.17,0ZM354.17,59l-93.49,129.56,91.32,131.34,3,1.06,92.44-132.58-90.43-128.49-2.84-.9Z"/>
 </svg>
-      `;
-      
-      watermark.src = 'data:image/svg+xml;base64,' + btoa(svgString);
-    };
-    img.onerror = (err) => reject(err);
-    img.src = `data:image/png;base64,${base64Data}`;
-  });
+  `;
+
+  const [img, watermark] = await Promise.all([
+    loadBase64Image(base64Data),
+    loadImage('data:image/svg+xml;base64,' + btoa(svgString)),
+  ]);
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+
+  // Draw original
+  ctx.drawImage(img, 0, 0);
+
+  // Calculate size relative to image MIN dimension to ensure consistency across ratios
+  // 10% of the smallest side
+  const targetWidth = Math.max(60, Math.min(img.width, img.height) * 0.10); 
+  const aspectRatio = 710.52 / 767.9; // Based on new viewBox
+  const targetHeight = targetWidth / aspectRatio;
+
+  const padding = Math.max(15, Math.min(img.width, img.height) * 0.02);
+
+  const x = img.width - targetWidth - padding;
+  const y = img.height - targetHeight - padding;
+
+  ctx.globalAlpha = 0.5; // Reverted to 0.5 per user request
+  // Add a glow/shadow backing for legibility in case the gray blends in
+  ctx.shadowColor = "rgba(0,0,0,0.8)";
+  ctx.shadowBlur = 4;
+  ctx.drawImage(watermark, x, y, targetWidth, targetHeight);
+  ctx.shadowBlur = 0;
+  ctx.globalAlpha = 1.0;
+
+  return canvasToBase64(canvas);
 };
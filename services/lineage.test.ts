@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { GeneratedImage } from "../types";
+import { deriveImage, traceLineage } from "./lineage";
+
+const parent: GeneratedImage = {
+  id: 'p',
+  base64: 'parent',
+  mimeType: 'image/png',
+  prompt: 'a lighthouse',
+  timestamp: 0,
+  adjustments: [{ id: 'op', type: 'brightness', params: { amount: 10 }, enabled: true }],
+  renderedBase64: 'rendered',
+  instruction: 'make it night',
+  selection: { x: 0, y: 0, w: 50, h: 50 },
+  redactions: [{ x: 10, y: 10, w: 5, h: 5 }],
+  latencyMs: 900,
+  operation: 'edit',
+};
+
+describe("deriveImage", () => {
+  it("links to the parent and drops how the parent itself was made", () => {
+    const child = deriveImage(parent, 'crop', { base64: 'cropped' });
+    expect(child).toMatchObject({ base64: 'cropped', prompt: 'a lighthouse', operation: 'crop', parentId: 'p', input: { kind: 'image', id: 'p' } });
+    for (const key of ['adjustments', 'renderedBase64', 'instruction', 'selection', 'redactions', 'latencyMs'] as const) {
+      expect(child[key]).toBeUndefined();
+    }
+  });
+
+  it("lets the patch carry fields over explicitly", () => {
+    const child = deriveImage(parent, 'crop', { base64: 'cropped', adjustments: parent.adjustments });
+    expect(child.adjustments).toBe(parent.adjustments);
+  });
+
+  it("issues distinct ids within the same millisecond", () => {
+    const ids = new Set(Array.from({ length: 50 }, () => deriveImage(parent, 'filter', { base64: 'x' }).id));
+    expect(ids.size).toBe(50);
+  });
+});
+
+describe("traceLineage", () => {
+  const items = [
+    { id: 'a' },
+    { id: 'b', parentId: 'a' },
+    { id: 'c', parentId: 'b' },
+    { id: 'orphan', parentId: 'gone' },
+  ];
+
+  it("walks back to the root, oldest first", () => {
+    expect(traceLineage(items, 'c')).toEqual({ chain: [items[0], items[1], items[2]] });
+  });
+
+  it("reports the first ancestor missing from the collection", () => {
+    expect(traceLineage(items, 'orphan')).toEqual({ chain: [items[3]], missingParentId: 'gone' });
+  });
+
+  it("returns an empty chain for unknown ids", () => {
+    expect(traceLineage(items, 'zzz')).toEqual({ chain: [] });
+  });
+
+  it("stops on a cycle instead of looping", () => {
+    const cyclic = [{ id: 'x', parentId: 'y' }, { id: 'y', parentId: 'x' }];
+    expect(traceLineage(cyclic, 'x').chain.map(item => item.id)).toEqual(['y', 'x']);
+  });
+});
@@ -0,0 +1,60 @@
+import { GeneratedImage, ImageOperation } from "../types";
+
+// Lineage helpers. Every derived image records its parent, so the chain back to the original
+// generation can be rebuilt from any collection that holds the intermediate steps.
+
+type LineageNode = { id: string; parentId?: string };
+
+export const OPERATION_LABELS: Record<ImageOperation, string> = {
+  generate: 'Generate',
+  edit: 'Edit',
+  outpaint: 'Outpaint',
+  filter: 'Filter',
+  crop: 'Crop',
+};
+
+// New image produced locally from `parent`. Fields describing how the parent itself was made are not
+// inherited, nor is its adjustment stack: steps that keep it editable (crop, redact) pass it in the patch
+// via carryAdjustments, the rest start from pixels that already contain it.
+export const deriveImage = (
+  parent: GeneratedImage,
+  operation: ImageOperation,
+  patch: Partial<GeneratedImage> & Pick<GeneratedImage, 'base64'>
+): GeneratedImage => {
+  const {
+    adjustments, renderedBase64, regions, selection, redactions, instruction, sentPrompt, latencyMs, input,
+    ...inherited
+  } = parent;
+  const now = Date.now();
+  return {
+    ...inherited,
+    // Random suffix: two steps derived in the same millisecond must not overwrite each other
+    id: `${now}_${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: now,
+    operation,
+    parentId: parent.id,
+    input: { kind: 'image', id: parent.id },
+    ...patch,
+  };
+};
+
+export interface LineageChain<T extends LineageNode> {
+  chain: T[]; // Oldest first, ending with the requested image
+  missingParentId?: string; // First ancestor not present in the collection (deleted or evicted)
+}
+
+export const traceLineage = <T extends LineageNode>(items: T[], id: string): LineageChain<T> => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const chain: T[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    chain.unshift(current);
+    if (!current.parentId) return { chain };
+    const parent = byId.get(current.parentId);
+    if (!parent) return { chain, missingParentId: current.parentId };
+    current = parent;
+  }
+  return { chain };
+};
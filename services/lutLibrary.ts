@@ -0,0 +1,79 @@
+import { ColorLut } from "../types";
+
+// Named LUT library persisted in localStorage. Tables are stored as 16-bit values
+// (base64), which keeps a 33-point cube near 300 KB while staying well under one 8-bit step of error.
+
+const STORAGE_KEY = 'infogenius_luts';
+
+interface StoredLut {
+  id: string;
+  name: string;
+  dimension: 1 | 3;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  data: string;
+}
+
+const encodeTable = (table: Float32Array): string => {
+  const quantized = new Uint16Array(table.length);
+  for (let i = 0; i < table.length; i++) quantized[i] = Math.round(Math.max(0, Math.min(1, table[i])) * 65535);
+  const bytes = new Uint8Array(quantized.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const decodeTable = (data: string): Float32Array => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  const quantized = new Uint16Array(bytes.buffer);
+  const table = new Float32Array(quantized.length);
+  for (let i = 0; i < quantized.length; i++) table[i] = quantized[i] / 65535;
+  return table;
+};
+
+let cache: ColorLut[] | null = null;
+
+const readStored = (): StoredLut[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("Failed to load LUT library", e);
+    return [];
+  }
+};
+
+const writeStored = (luts: ColorLut[]) => {
+  const stored: StoredLut[] = luts.map(({ table, ...meta }) => ({ ...meta, data: encodeTable(table) }));
+  // Throws QuotaExceededError when the library outgrows localStorage; callers surface it
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+export const loadLutLibrary = (): ColorLut[] => {
+  if (!cache) {
+    cache = readStored().map(({ data, ...meta }) => ({ ...meta, table: decodeTable(data) }));
+  }
+  return cache;
+};
+
+export const getLut = (id: string): ColorLut | undefined =>
+  loadLutLibrary().find(lut => lut.id === id);
+
+export const saveLut = (lut: Omit<ColorLut, 'id'>): ColorLut => {
+  const entry: ColorLut = { ...lut, id: `lut_${Date.now()}` };
+  const next = [...loadLutLibrary(), entry];
+  writeStored(next);
+  cache = next;
+  return entry;
+};
+
+export const deleteLut = (id: string) => {
+  const next = loadLutLibrary().filter(lut => lut.id !== id);
+  writeStored(next);
+  cache = next;
+};
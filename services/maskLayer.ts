@@ -0,0 +1,134 @@
+// Offscreen mask layer used by the edit canvas.
+// The layer lives at the image's natural pixel size; opaque pixels mark the region to edit.
+
+export type MaskTool = 'box' | 'brush' | 'eraser' | 'lasso';
+
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+const getContext = (layer: HTMLCanvasElement): CanvasRenderingContext2D => {
+  const ctx = layer.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+  return ctx;
+};
+
+export const createMaskLayer = (width: number, height: number): HTMLCanvasElement => {
+  const layer = document.createElement('canvas');
+  layer.width = width;
+  layer.height = height;
+  return layer;
+};
+
+// Paints one round dab. Hardness (0-1) sets where the radial falloff begins.
+export const stampBrush = (
+  layer: HTMLCanvasElement,
+  point: MaskPoint,
+  radius: number,
+  hardness: number,
+  erase: boolean = false
+) => {
+  const ctx = getContext(layer);
+  const gradient = ctx.createRadialGradient(point.x, point.y, 0, point.x, point.y, radius);
+  gradient.addColorStop(0, 'rgba(255,255,255,1)');
+  gradient.addColorStop(Math.min(0.99, Math.max(0, hardness)), 'rgba(255,255,255,1)');
+  gradient.addColorStop(1, 'rgba(255,255,255,0)');
+
+  ctx.save();
+  ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(point.x, point.y, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+};
+
+// Fills the gap between two pointer samples with evenly spaced dabs
+export const strokeBrush = (
+  layer: HTMLCanvasElement,
+  from: MaskPoint,
+  to: MaskPoint,
+  radius: number,
+  hardness: number,
+  erase: boolean = false
+) => {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const spacing = Math.max(1, radius / 4);
+  const steps = Math.max(1, Math.ceil(distance / spacing));
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    stampBrush(layer, { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }, radius, hardness, erase);
+  }
+};
+
+export const fillLasso = (layer: HTMLCanvasElement, points: MaskPoint[], erase: boolean = false) => {
+  if (points.length < 3) return;
+  const ctx = getContext(layer);
+  ctx.save();
+  ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+};
+
+export const clearMaskLayer = (layer: HTMLCanvasElement) => {
+  getContext(layer).clearRect(0, 0, layer.width, layer.height);
+};
+
+export const invertMaskLayer = (layer: HTMLCanvasElement) => {
+  const ctx = getContext(layer);
+  const image = ctx.getImageData(0, 0, layer.width, layer.height);
+  const data = image.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = 255;
+    data[i + 3] = 255 - data[i + 3];
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+export const isMaskLayerEmpty = (layer: HTMLCanvasElement): boolean => {
+  const data = getContext(layer).getImageData(0, 0, layer.width, layer.height).data;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+// Flattens the layer into the mask PNG the edit pipeline expects: white = edit, black = keep.
+// Soft brush edges come through as grey, which the composite step turns into a feather.
+export const maskLayerToPng = (layer: HTMLCanvasElement): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = layer.width;
+  canvas.height = layer.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(layer, 0, 0);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+// Draws the layer onto a visible canvas as a translucent tint
+export const renderMaskOverlay = (
+  layer: HTMLCanvasElement,
+  overlay: HTMLCanvasElement,
+  color: string = 'rgba(6, 182, 212, 0.45)'
+) => {
+  if (overlay.width !== layer.width || overlay.height !== layer.height) {
+    overlay.width = layer.width;
+    overlay.height = layer.height;
+  }
+  const ctx = overlay.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, overlay.width, overlay.height);
+  ctx.drawImage(layer, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, overlay.width, overlay.height);
+  ctx.globalCompositeOperation = 'source-over';
+};
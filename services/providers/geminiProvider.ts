@@ -0,0 +1,135 @@
+import { AIModel, ImageResolution } from "../../types";
+import type { ImageProvider } from "../imageProvider";
+import { DETECTION_PROMPT, parseDetectionResponse } from "../detection";
+import { getClient, getValidApiRatio, buildGenerationPrompt, buildEditPrompt, extractImageFromResponse } from "./shared";
+
+export const geminiProvider: ImageProvider = {
+  id: "gemini",
+  label: "Gemini Image",
+  models: [AIModel.FLASH, AIModel.PRO_IMAGE],
+  requiresApiKey: true,
+  capabilities: {
+    imageToImage: true,
+    edit: true,
+    describe: true,
+    detect: true,
+    maxBatchSize: 1,
+  },
+  // Only the Pro image model accepts imageSize; Flash always renders at 1K
+  nativeResolutions: (model) => model === AIModel.PRO_IMAGE
+    ? [ImageResolution.RES_1K, ImageResolution.RES_2K, ImageResolution.RES_4K]
+    : [ImageResolution.RES_1K],
+
+  generate: async (prompt, options, inputImage, apiKey, signal) => {
+    const ai = getClient(apiKey);
+    // generateContent takes a seed but has no negative prompt field
+    const enhancedPrompt = buildGenerationPrompt(prompt, options, { seed: true });
+
+    const imageConfig: any = {
+      aspectRatio: getValidApiRatio(options.aspectRatio, options.customRatioValue),
+    };
+    if (options.model === AIModel.PRO_IMAGE) {
+      imageConfig.imageSize = options.resolution;
+    }
+
+    let contents: any = enhancedPrompt;
+    
+    // Handle Image-to-Image (Multimodal)
+    if (inputImage) {
+      contents = {
+        parts: [
+          { text: enhancedPrompt },
+          {
+            inlineData: {
+              data: inputImage,
+              mimeType: 'image/png', // Assuming PNG/JPEG from frontend
+            }
+          }
+        ]
+      };
+    }
+
+    const response = await ai.models.generateContent({
+      model: options.model, 
+      contents: contents,
+      config: {
+        imageConfig: imageConfig,
+        seed: options.seed,
+        abortSignal: signal,
+      },
+    });
+
+    const image = extractImageFromResponse(response, prompt, "No image data received from the model.");
+    return { ...image, sentPrompt: enhancedPrompt };
+  },
+
+  edit: async (currentImage, editInstruction, options, mask, apiKey, signal) => {
+    const ai = getClient(apiKey);
+    const editPrompt = buildEditPrompt(editInstruction, !!mask);
+
+    const imageConfig: any = {
+      aspectRatio: getValidApiRatio(options.aspectRatio, options.customRatioValue)
+    };
+    if (options.model === AIModel.PRO_IMAGE) {
+      imageConfig.imageSize = options.resolution;
+    }
+
+    const response = await ai.models.generateContent({
+      model: options.model, 
+      contents: {
+        parts: [
+          {
+            text: editPrompt,
+          },
+          {
+            inlineData: {
+              data: currentImage.base64,
+              mimeType: currentImage.mimeType,
+            },
+          },
+          ...(mask ? [{ inlineData: { data: mask, mimeType: 'image/png' } }] : []),
+        ],
+      },
+      config: {
+        imageConfig: imageConfig,
+        abortSignal: signal,
+      },
+    });
+
+    const image = extractImageFromResponse(response, currentImage.prompt, "No edited image data received from the model.");
+    return { ...image, sentPrompt: editPrompt };
+  },
+
+  describe: async (image, apiKey, signal) => {
+    const ai = getClient(apiKey);
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+        parts: [
+          { text: "Describe this image in one concise paragraph suitable for use as a generation prompt. No markdown." },
+          { inlineData: { data: image.base64, mimeType: image.mimeType } },
+        ],
+      },
+      config: { abortSignal: signal },
+    });
+    return (response.text || "").trim();
+  },
+
+  detect: async (image, apiKey, signal) => {
+    const ai = getClient(apiKey);
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+        parts: [
+          { text: DETECTION_PROMPT },
+          { inlineData: { data: image.base64, mimeType: image.mimeType } },
+        ],
+      },
+      config: {
+        responseMimeType: "application/json",
+        abortSignal: signal,
+      },
+    });
+    return parseDetectionResponse(response.text || "");
+  },
+};
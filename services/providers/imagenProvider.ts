@@ -0,0 +1,92 @@
+import { AIModel, ImageResolution, GenerationOptions, GeneratedImage } from "../../types";
+import type { ImageProvider } from "../imageProvider";
+import { getClient, getValidApiRatio, buildGenerationPrompt } from "./shared";
+import { UnsupportedCapabilityError, SafetyRefusalError, NoImageError } from "../errors";
+
+// Imagen returns up to 4 images per request
+const IMAGEN_MAX_BATCH = 4;
+
+const generateImagenBatch = async (
+  prompt: string,
+  options: GenerationOptions,
+  count: number,
+  inputImage?: string,
+  apiKey?: string,
+  signal?: AbortSignal
+): Promise<GeneratedImage[]> => {
+  if (inputImage) {
+    throw new UnsupportedCapabilityError('imageToImage', "The selected Imagen model does not support Image-to-Image generation. Please use a Gemini model (UMBRAX-Iris 5.1).");
+  }
+
+  const ai = getClient(apiKey);
+  // The Gemini API rejects negativePrompt and seed for Imagen, so both ride in the prompt text
+  const sentPrompt = buildGenerationPrompt(prompt, options);
+  // Imagen tops out at 2K; 4K requests are rendered at 2K and upscaled by the caller
+  const imageSize = options.resolution === ImageResolution.RES_1K ? '1K' : '2K';
+  const response = await ai.models.generateImages({
+    model: options.model,
+    prompt: sentPrompt,
+    config: {
+      numberOfImages: Math.min(count, IMAGEN_MAX_BATCH),
+      aspectRatio: getValidApiRatio(options.aspectRatio, options.customRatioValue),
+      imageSize,
+      outputMimeType: 'image/png',
+      abortSignal: signal
+    }
+  });
+
+  const now = Date.now();
+  const images: GeneratedImage[] = (response.generatedImages || [])
+    .filter(img => img.image?.imageBytes)
+    .map((img, i) => ({
+      id: `${now}_${i}`,
+      base64: img.image!.imageBytes as string,
+      mimeType: 'image/png',
+      prompt: prompt,
+      timestamp: now,
+      sentPrompt,
+    }));
+
+  if (images.length > 0) return images;
+
+  // Nothing usable: every image was withheld by the safety filter
+  const filtered = response.generatedImages?.find(img => img.raiFilteredReason);
+  if (filtered) {
+    throw new SafetyRefusalError(filtered.raiFilteredReason as string);
+  }
+  throw new NoImageError("No image data received from Imagen model.");
+};
+
+export const imagenProvider: ImageProvider = {
+  id: "imagen",
+  label: "Imagen",
+  models: [AIModel.IMAGEN],
+  requiresApiKey: true,
+  capabilities: {
+    imageToImage: false,
+    edit: false,
+    describe: false,
+    detect: false,
+    maxBatchSize: IMAGEN_MAX_BATCH,
+  },
+  nativeResolutions: () => [ImageResolution.RES_1K, ImageResolution.RES_2K],
+
+  generate: async (prompt, options, inputImage, apiKey, signal) => {
+    const [image] = await generateImagenBatch(prompt, options, 1, inputImage, apiKey, signal);
+    return image;
+  },
+
+  generateBatch: generateImagenBatch,
+
+  edit: async () => {
+    throw new UnsupportedCapabilityError('edit', "Edit/Inpainting functions are currently optimized for UMBRAX (Gemini) models only.");
+  },
+
+  describe: async () => {
+    throw new UnsupportedCapabilityError('describe', "The selected Imagen model cannot describe images. Please use a Gemini model.");
+  },
+
+  detect: async () => {
+    throw new UnsupportedCapabilityError('detect', "The selected Imagen model cannot detect objects. Please use a Gemini model.");
+  },
+};
@@ -0,0 +1,290 @@
+import { GenerationOptions, GeneratedImage, ImageResolution } from "../../types";
+import type { ImageProvider } from "../imageProvider";
+import { SafetyRefusalError } from "../errors";
+import { abortableDelay } from "../retry";
+import { parseDetectionResponse } from "../detection";
+import { getImageDimensions, loadImage } from "../imageUtils";
+import { getValidApiRatio } from "./shared";
+
+// Offline stand-in for the real backends. Output is procedural and deterministic:
+// the same prompt + options always render the same placeholder.
+
+export type MockFailure = 'none' | 'auth' | 'quota' | 'safety';
+
+export interface MockConfig {
+  latencyMs: number;    // Base simulated round-trip
+  failure: MockFailure; // Fault injected into the next request
+  stickyFailure: boolean; // Keep failing until reset instead of failing once
+}
+
+const config: MockConfig = {
+  latencyMs: 1200,
+  failure: 'none',
+  stickyFailure: false,
+};
+
+export const getMockConfig = (): MockConfig => ({ ...config });
+
+export const configureMockProvider = (update: Partial<MockConfig>) => {
+  Object.assign(config, update);
+};
+
+// Mirrors the shape of the SDK's ApiError so it goes through the same normalization as real failures
+class MockApiError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'MockApiError';
+    this.status = status;
+  }
+}
+
+// FNV-1a string hash
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32 PRNG
+const createRandom = (seed: number) => {
+  let a = seed;
+  return () => {
+    a = (a + 0x6D2B79F5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const simulateNetwork = async (seed: number, signal?: AbortSignal) => {
+  const jitter = (seed % 400) - 200;
+  await abortableDelay(Math.max(0, config.latencyMs + jitter), signal);
+
+  const failure = config.failure;
+  if (failure === 'none') return;
+  if (!config.stickyFailure) config.failure = 'none';
+
+  switch (failure) {
+    case 'auth':
+      throw new MockApiError(403, "PERMISSION_DENIED: The caller does not have permission (simulated).");
+    case 'quota':
+      throw new MockApiError(429, `{"error":{"code":429,"status":"RESOURCE_EXHAUSTED","message":"Quota exceeded for this model (simulated).","details":[{"retryDelay":"3s"}]}}`);
+    case 'safety':
+      // Real models refuse with plain text instead of an image
+      throw new SafetyRefusalError("I can't create that image because it may violate the content policy (simulated).");
+  }
+};
+
+// Like the real API, only supported ratios are rendered; custom ones get the nearest
+const getDimensions = (options: GenerationOptions) => {
+  const longEdge = 1024;
+  const [w, h] = getValidApiRatio(options.aspectRatio, options.customRatioValue).split(':').map(Number);
+  const ratio = w / h;
+  return ratio >= 1
+    ? { width: longEdge, height: Math.round(longEdge / ratio) }
+    : { width: Math.round(longEdge * ratio), height: longEdge };
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const test = line ? `${line} ${word}` : word;
+    if (ctx.measureText(test).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = test;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.slice(0, 4);
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, width: number, height: number, title: string, body: string) => {
+  const fontSize = Math.max(14, Math.round(Math.min(width, height) * 0.03));
+  const padding = fontSize;
+  ctx.font = `${fontSize}px monospace`;
+  const lines = wrapText(ctx, body, width - padding * 4);
+  const boxHeight = (lines.length + 1) * fontSize * 1.4 + padding;
+
+  ctx.fillStyle = 'rgba(2, 6, 23, 0.7)';
+  ctx.fillRect(padding, height - boxHeight - padding, width - padding * 2, boxHeight);
+
+  ctx.fillStyle = '#22d3ee';
+  ctx.fillText(title, padding * 2, height - boxHeight + fontSize * 0.4);
+  ctx.fillStyle = '#e2e8f0';
+  lines.forEach((l, i) => {
+    ctx.fillText(l, padding * 2, height - boxHeight + fontSize * (0.4 + (i + 1) * 1.4));
+  });
+};
+
+const renderPlaceholder = (prompt: string, options: GenerationOptions, seed: number): string => {
+  const { width, height } = getDimensions(options);
+  const random = createRandom(seed);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  // Background gradient from two seeded hues
+  const hueA = Math.floor(random() * 360);
+  const hueB = (hueA + 90 + Math.floor(random() * 180)) % 360;
+  const bg = ctx.createLinearGradient(0, 0, width, height);
+  bg.addColorStop(0, `hsl(${hueA}, 70%, 18%)`);
+  bg.addColorStop(1, `hsl(${hueB}, 70%, 35%)`);
+  ctx.fillStyle = bg;
+  ctx.fillRect(0, 0, width, height);
+
+  // Soft orbs
+  const orbCount = 6 + Math.floor(random() * 8);
+  for (let i = 0; i < orbCount; i++) {
+    const x = random() * width;
+    const y = random() * height;
+    const r = (0.05 + random() * 0.25) * Math.min(width, height);
+    const orb = ctx.createRadialGradient(x, y, 0, x, y, r);
+    const hue = (hueA + random() * 120) % 360;
+    orb.addColorStop(0, `hsla(${hue}, 90%, 65%, ${0.25 + random() * 0.4})`);
+    orb.addColorStop(1, `hsla(${hue}, 90%, 50%, 0)`);
+    ctx.fillStyle = orb;
+    ctx.fillRect(x - r, y - r, r * 2, r * 2);
+  }
+
+  // Grid overlay
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.06)';
+  ctx.lineWidth = 1;
+  const step = Math.round(Math.min(width, height) / 16);
+  for (let x = 0; x < width; x += step) {
+    ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, height); ctx.stroke();
+  }
+  for (let y = 0; y < height; y += step) {
+    ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(width, y); ctx.stroke();
+  }
+
+  drawCaption(ctx, width, height, `OFFLINE DEMO // ${options.aesthetic} // ${options.model}`, prompt || "(no prompt)");
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+const renderEdit = async (source: GeneratedImage, instruction: string, seed: number): Promise<string> => {
+  const img = await loadImage(`data:${source.mimeType};base64,${source.base64}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  // Visible but non-destructive change: hue rotation keyed to the instruction
+  ctx.filter = `hue-rotate(${seed % 360}deg) saturate(120%)`;
+  ctx.drawImage(img, 0, 0);
+  ctx.filter = 'none';
+
+  drawCaption(ctx, img.width, img.height, "OFFLINE DEMO // EDIT", instruction);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+// Each variant gets its own seed so a batch shows distinct, still reproducible placeholders
+const generateMockBatch = async (
+  prompt: string,
+  options: GenerationOptions,
+  count: number,
+  inputImage?: string,
+  _apiKey?: string,
+  signal?: AbortSignal
+): Promise<GeneratedImage[]> => {
+  const baseSeed = hashString(`${prompt}|${options.negativePrompt || ''}|${options.seed ?? ''}|${options.aesthetic}|${options.model}|${options.aspectRatio}|${options.resolution}`);
+  await simulateNetwork(baseSeed, signal);
+
+  const now = Date.now();
+  const images: GeneratedImage[] = [];
+  for (let i = 0; i < count; i++) {
+    const seed = i === 0 ? baseSeed : hashString(`${baseSeed}#${i}`);
+    const base64 = inputImage
+      ? await renderEdit({ id: 'input', base64: inputImage, mimeType: 'image/png', prompt, timestamp: 0 }, prompt, seed)
+      : renderPlaceholder(prompt, options, seed);
+    images.push({
+      id: `${now}_${i}`,
+      base64,
+      mimeType: 'image/png',
+      prompt: prompt,
+      timestamp: now,
+    });
+  }
+  return images;
+};
+
+export const mockProvider: ImageProvider = {
+  id: "mock",
+  label: "Offline Demo",
+  models: [],
+  requiresApiKey: false,
+  capabilities: {
+    imageToImage: true,
+    edit: true,
+    describe: true,
+    detect: true,
+    maxBatchSize: 8,
+  },
+  // Renders at 1K so the client-side upscale path gets exercised offline too
+  nativeResolutions: () => [ImageResolution.RES_1K],
+
+  generate: async (prompt, options, inputImage, apiKey, signal) => {
+    const [image] = await generateMockBatch(prompt, options, 1, inputImage, apiKey, signal);
+    return image;
+  },
+
+  generateBatch: (prompt, options, count, inputImage, apiKey, signal) =>
+    generateMockBatch(prompt, options, count, inputImage, apiKey, signal),
+
+  // Recolours the whole frame; a mask is honoured by the caller's composite step
+  edit: async (currentImage, editInstruction, _options, _mask, _apiKey, signal) => {
+    const seed = hashString(`${currentImage.id}|${editInstruction}`);
+    await simulateNetwork(seed, signal);
+
+    return {
+      id: Date.now().toString(),
+      base64: await renderEdit(currentImage, editInstruction, seed),
+      mimeType: 'image/png',
+      prompt: currentImage.prompt,
+      timestamp: Date.now(),
+    };
+  },
+
+  describe: async (image, _apiKey, signal) => {
+    await simulateNetwork(hashString(image.id), signal);
+    const { width, height } = await getImageDimensions(image.base64);
+    return `Offline demo analysis: a ${width}x${height} render originally directed as "${image.prompt}".`;
+  },
+
+  // Seeded boxes in the model's 0-1000 format, so the real parser is exercised offline
+  detect: async (image, _apiKey, signal) => {
+    const seed = hashString(`${image.id}|detect`);
+    await simulateNetwork(seed, signal);
+    const random = createRandom(seed);
+    const labels = ['orb', 'structure', 'horizon', 'figure', 'light source'];
+    const entries = labels.slice(0, 3 + Math.floor(random() * 3)).map(label => {
+      const ymin = Math.round(random() * 600);
+      const xmin = Math.round(random() * 600);
+      return { label, box_2d: [ymin, xmin, ymin + 150 + Math.round(random() * 250), xmin + 150 + Math.round(random() * 250)] };
+    });
+    return parseDetectionResponse(JSON.stringify(entries));
+  },
+};
+
+export const getMockPromptEnhancements = async (currentPrompt: string, signal?: AbortSignal): Promise<string[]> => {
+  await simulateNetwork(hashString(currentPrompt), signal);
+  return [
+    `${currentPrompt}, photorealistic, ultra-detailed textures, natural lighting, 85mm lens`,
+    `${currentPrompt}, dramatic rim lighting, painterly brushwork, rich color grading`,
+    `An abstract interpretation of ${currentPrompt}, geometric forms, negative space, muted palette`,
+  ];
+};
+
+export const validateMockCredentials = async (apiKey: string): Promise<boolean> => {
+  await new Promise(resolve => setTimeout(resolve, config.latencyMs / 2));
+  return apiKey.trim().length > 0;
+};
@@ -0,0 +1,109 @@
+import { GoogleGenAI } from "@google/genai";
+import { GenerationOptions, GeneratedImage, Aesthetic } from "../../types";
+import { AuthError, SafetyRefusalError, NoImageError } from "../errors";
+
+export const getClient = (customKey?: string) => {
+  const apiKey = customKey;
+  if (!apiKey) {
+    throw new AuthError("API_KEY_MISSING");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const API_RATIOS: [string, number][] = [["1:1", 1], ["16:9", 16 / 9], ["9:16", 9 / 16], ["4:3", 4 / 3], ["3:4", 3 / 4]];
+
+// Supported ratio closest to an arbitrary w/h value (compared in log space, so 2:1 and 1:2 are symmetric)
+export const nearestApiRatio = (value: number): string => {
+  let best = API_RATIOS[0];
+  for (const candidate of API_RATIOS) {
+    if (Math.abs(Math.log(candidate[1] / value)) < Math.abs(Math.log(best[1] / value))) best = candidate;
+  }
+  return best[0];
+};
+
+// Helper to map custom/UI ratios to API valid ratios
+export const getValidApiRatio = (ratio: string, customValue?: number): string => {
+  if (API_RATIOS.some(([name]) => name === ratio)) return ratio;
+  if (customValue && customValue > 0) return nearestApiRatio(customValue);
+  return "1:1"; // Fallback for custom without a value
+};
+
+// Parameters the calling model accepts natively are left out of the prompt text
+export interface NativeGenerationParams {
+  negativePrompt?: boolean;
+  seed?: boolean;
+}
+
+export const buildGenerationPrompt = (
+  prompt: string,
+  options: GenerationOptions,
+  native: NativeGenerationParams = {}
+): string => {
+  // Only append specific configuration if not General
+  const aestheticConfig = options.aesthetic === Aesthetic.GENERAL 
+    ? "" 
+    : `- Aesthetic Style: ${options.aesthetic}`;
+
+  const negativePrompt = options.negativePrompt?.trim();
+  const exclusion = negativePrompt && !native.negativePrompt ? `EXCLUDE: ${negativePrompt}` : "";
+  const seed = options.seed !== undefined && !native.seed ? `VARIATION_SEED: ${options.seed}` : "";
+
+  return `
+    [SYSTEM_DIRECTIVE: GENERATE_VISUAL_ASSET]
+    SUBJECT: "${prompt}"
+    
+    ${aestheticConfig ? `PARAMETERS: ${aestheticConfig}` : ""}
+    ${exclusion}
+    ${seed}
+    
+    CONSTRAINT: OUTPUT IMAGE ONLY. DO NOT GENERATE CONVERSATIONAL TEXT, COMMENTARY, OR FEEDBACK.
+    MODE: HIGH_FIDELITY
+  `;
+};
+
+export const buildEditPrompt = (editInstruction: string, masked: boolean = false): string => `
+    [SYSTEM_DIRECTIVE: EDIT_VISUAL]
+    TASK: ${editInstruction}
+    ${masked ? "MASK: THE SECOND IMAGE IS A BINARY MASK THE SAME SIZE AS THE FIRST. APPLY THE TASK ONLY WHERE THE MASK IS WHITE. KEEP EVERY BLACK-MASKED PIXEL IDENTICAL. RETURN THE FULL IMAGE AT THE ORIGINAL FRAMING." : ""}
+    CONSTRAINT: OUTPUT IMAGE ONLY. NO CONVERSATIONAL TEXT.
+  `;
+
+// Pulls the first inline image out of a generateContent response.
+// If the model answered with text only (e.g. safety refusal), that text is thrown as a SafetyRefusalError.
+export const extractImageFromResponse = (
+  response: any,
+  prompt: string,
+  emptyMessage: string
+): GeneratedImage => {
+  if (response.candidates && response.candidates.length > 0) {
+    const content = response.candidates[0].content;
+    if (content?.parts) {
+      // First pass: look for valid image data
+      for (const part of content.parts) {
+        if (part.inlineData && part.inlineData.data) {
+          return {
+            id: Date.now().toString(),
+            base64: part.inlineData.data,
+            mimeType: part.inlineData.mimeType || 'image/png',
+            prompt: prompt,
+            timestamp: Date.now(),
+          };
+        }
+      }
+      // Second pass: if no image, check for text to throw as error (e.g. safety refusal)
+      for (const part of content.parts) {
+        if (part.text) {
+          throw new SafetyRefusalError(part.text);
+        }
+      }
+    }
+  }
+
+  // Blocked outright: no parts at all, only a block/finish reason
+  const blockReason = response.promptFeedback?.blockReason || response.candidates?.[0]?.finishReason;
+  if (blockReason && /SAFETY|BLOCK|PROHIBITED|RECITATION/.test(String(blockReason))) {
+    throw new SafetyRefusalError(`Request blocked by safety filters (${blockReason}).`);
+  }
+
+  throw new NoImageError(emptyMessage);
+};
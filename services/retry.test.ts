@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { computeBackoff, isRetryable, withRetry, RetryInfo, RetryPolicy } from "./retry";
+import { AuthError, CancelledError, NetworkError, QuotaError, SafetyRefusalError } from "./errors";
+
+// No waiting between attempts unless a test asks for it
+const FAST: RetryPolicy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 50, jitter: 0 };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("computeBackoff", () => {
+  const policy: RetryPolicy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000, jitter: 0 };
+
+  it("doubles per attempt up to the ceiling", () => {
+    expect([1, 2, 3, 4, 5].map(attempt => computeBackoff(attempt, policy))).toEqual([1000, 2000, 4000, 5000, 5000]);
+  });
+
+  it("spreads the delay by the jitter fraction in both directions", () => {
+    const jittered = { ...policy, jitter: 0.5 };
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(computeBackoff(2, jittered)).toBe(1000);
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(computeBackoff(2, jittered)).toBe(3000);
+  });
+});
+
+describe("isRetryable", () => {
+  it.each([
+    ["quota errors", new QuotaError("slow down"), true],
+    ["transport failures", new NetworkError("offline"), true],
+    ["server errors", new NetworkError("unavailable", 503), true],
+    ["other HTTP statuses", new NetworkError("bad request", 400), false],
+    ["auth errors", new AuthError("bad key"), false],
+    ["safety refusals", new SafetyRefusalError("no"), false],
+  ])("%s", (_case, error, expected) => {
+    expect(isRetryable(error)).toBe(expected);
+  });
+});
+
+describe("withRetry", () => {
+  it("retries retryable failures and reports each one", async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new NetworkError("unavailable", 503))
+      .mockRejectedValueOnce(new NetworkError("unavailable", 503))
+      .mockResolvedValue("ok");
+    const retries: RetryInfo[] = [];
+
+    await expect(withRetry(operation, FAST, info => retries.push(info))).resolves.toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(retries.map(r => [r.attempt, r.maxAttempts, r.fromServerHint])).toEqual([[1, 3, false], [2, 3, false]]);
+  });
+
+  it("gives up after maxAttempts with the last error", async () => {
+    const operation = vi.fn().mockRejectedValue(new NetworkError("unavailable", 503));
+    await expect(withRetry(operation, FAST)).rejects.toBeInstanceOf(NetworkError);
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry errors that would fail again", async () => {
+    const operation = vi.fn().mockRejectedValue(new AuthError("bad key"));
+    await expect(withRetry(operation, FAST)).rejects.toBeInstanceOf(AuthError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("converts raw errors before deciding", async () => {
+    const operation = vi.fn().mockRejectedValue(Object.assign(new Error("RESOURCE_EXHAUSTED"), { status: 429 }));
+    await expect(withRetry(operation, { ...FAST, maxAttempts: 2 })).rejects.toBeInstanceOf(QuotaError);
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits for the server's retry hint when it is within the ceiling", async () => {
+    const operation = vi.fn().mockRejectedValueOnce(new QuotaError("slow down", 5)).mockResolvedValue("ok");
+    const onRetry = vi.fn();
+    await expect(withRetry(operation, FAST, onRetry)).resolves.toBe("ok");
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 5, fromServerHint: true }));
+  });
+
+  it("fails fast when the server asks for a longer wait than the ceiling", async () => {
+    const operation = vi.fn().mockRejectedValue(new QuotaError("slow down", 60000));
+    await expect(withRetry(operation, FAST)).rejects.toBeInstanceOf(QuotaError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("never starts when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const operation = vi.fn().mockResolvedValue("ok");
+    await expect(withRetry(operation, FAST, undefined, controller.signal)).rejects.toBeInstanceOf(CancelledError);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it("cancels during the backoff wait instead of retrying", async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(new NetworkError("unavailable", 503));
+    const pending = withRetry(operation, { ...FAST, baseDelayMs: 10000, maxDelayMs: 10000 }, () => controller.abort(), controller.signal);
+    await expect(pending).rejects.toBeInstanceOf(CancelledError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
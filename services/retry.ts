@@ -0,0 +1,86 @@
+import { FluxError, QuotaError, NetworkError, CancelledError, toFluxError } from "./errors";
+
+export interface RetryPolicy {
+  maxAttempts: number;   // Total tries, including the first one
+  baseDelayMs: number;   // Delay before the first retry; doubles each attempt
+  maxDelayMs: number;    // Ceiling for computed backoff and for server hints
+  jitter: number;        // 0-1, fraction of the delay that is randomized
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.3,
+};
+
+export interface RetryInfo {
+  attempt: number;     // The attempt that just failed (1-based)
+  maxAttempts: number;
+  delayMs: number;     // Wait before the next attempt
+  error: FluxError;
+  fromServerHint: boolean;
+}
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+// Quota and transient server/transport failures are worth another try; auth, safety etc. are not
+export const isRetryable = (error: FluxError): boolean => {
+  if (error instanceof QuotaError) return true;
+  if (error instanceof NetworkError) {
+    return error.status === undefined || RETRYABLE_STATUSES.includes(error.status);
+  }
+  return false;
+};
+
+export const computeBackoff = (attempt: number, policy: RetryPolicy): number => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  const spread = exponential * policy.jitter;
+  return Math.max(0, Math.round(exponential - spread + Math.random() * spread * 2));
+};
+
+// Resolves after the delay, or rejects with CancelledError as soon as the signal aborts
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onRetry?: (info: RetryInfo) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw new CancelledError();
+    try {
+      return await operation();
+    } catch (e) {
+      // An abort can surface as any error shape depending on where the request was
+      if (signal?.aborted) throw new CancelledError(undefined, e);
+      const error = toFluxError(e);
+      if (attempt >= policy.maxAttempts || !isRetryable(error)) throw error;
+
+      const hint = error instanceof QuotaError ? error.retryAfterMs : undefined;
+      // A server hint beyond our ceiling means the wait is not worth blocking the UI for
+      if (hint !== undefined && hint > policy.maxDelayMs) throw error;
+
+      const delayMs = hint ?? computeBackoff(attempt, policy);
+      onRetry?.({ attempt, maxAttempts: policy.maxAttempts, delayMs, error, fromServerHint: hint !== undefined });
+      await abortableDelay(delayMs, signal);
+    }
+  }
+};
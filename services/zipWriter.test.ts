@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { createZip } from "./zipWriter";
+
+const readZip = async (zip: Blob) => {
+  const bytes = new Uint8Array(await zip.arrayBuffer());
+  return { bytes, view: new DataView(bytes.buffer) };
+};
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe("createZip", () => {
+  it("writes a stored entry with its local header, name and data", async () => {
+    const { bytes, view } = await readZip(await createZip([{ name: "hello.txt", data: "hello" }]));
+
+    expect(view.getUint32(0, true)).toBe(0x04034B50);
+    expect(view.getUint16(8, true)).toBe(0); // Stored
+    expect(view.getUint32(14, true)).toBe(0x3610A686); // CRC-32 of "hello"
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(view.getUint32(22, true)).toBe(5);
+    expect(view.getUint16(26, true)).toBe(9);
+    expect(decode(bytes.subarray(30, 39))).toBe("hello.txt");
+    expect(decode(bytes.subarray(39, 44))).toBe("hello");
+  });
+
+  it("ends with a central directory that points back at every entry", async () => {
+    const image = new Uint8Array([0x89, 0x50, 0x4E, 0x47]);
+    const zip = await createZip([
+      { name: "images/a.png", data: image },
+      { name: "manifest.json", data: new Blob(['{"count":1}']) },
+    ]);
+    const { bytes, view } = await readZip(zip);
+    expect(zip.type).toBe("application/zip");
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054B50);
+    expect(view.getUint16(end + 8, true)).toBe(2);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralSize = view.getUint32(end + 12, true);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(centralOffset + centralSize).toBe(end);
+
+    const names: string[] = [];
+    let cursor = centralOffset;
+    for (let i = 0; i < 2; i++) {
+      expect(view.getUint32(cursor, true)).toBe(0x02014B50);
+      const nameLength = view.getUint16(cursor + 28, true);
+      const localOffset = view.getUint32(cursor + 42, true);
+      const name = decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+      // The local header the entry points at carries the same name and CRC
+      expect(view.getUint32(localOffset, true)).toBe(0x04034B50);
+      expect(decode(bytes.subarray(localOffset + 30, localOffset + 30 + nameLength))).toBe(name);
+      expect(view.getUint32(localOffset + 14, true)).toBe(view.getUint32(cursor + 16, true));
+      names.push(name);
+      cursor += 46 + nameLength;
+    }
+    expect(names).toEqual(["images/a.png", "manifest.json"]);
+    expect(Array.from(bytes.subarray(42, 46))).toEqual(Array.from(image));
+  });
+
+  it("flags names as UTF-8 and stores their encoded length", async () => {
+    const { bytes, view } = await readZip(await createZip([{ name: "café.txt", data: "" }]));
+    expect(view.getUint16(6, true) & 0x0800).toBe(0x0800);
+    expect(view.getUint16(26, true)).toBe(9);
+    expect(decode(bytes.subarray(30, 39))).toBe("café.txt");
+  });
+
+  it("encodes the modification time as an MS-DOS date and time", async () => {
+    const modified = new Date(2024, 4, 17, 13, 45, 31);
+    const { view } = await readZip(await createZip([{ name: "a.txt", data: "a", modified }]));
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+  });
+
+  it("writes an empty archive as a bare end record", async () => {
+    const { bytes, view } = await readZip(await createZip([]));
+    expect(bytes.length).toBe(22);
+    expect(view.getUint32(0, true)).toBe(0x06054B50);
+    expect(view.getUint16(8, true)).toBe(0);
+  });
+
+  it("rejects more entries than the format can count", async () => {
+    const inputs = Array.from({ length: 0x10000 }, (_, i) => ({ name: `${i}.txt`, data: "" }));
+    await expect(createZip(inputs)).rejects.toThrow(/65535/);
+  });
+});
@@ -0,0 +1,102 @@
+// Minimal ZIP writer that runs entirely in the browser. Entries are stored uncompressed:
+// the payload is PNG/JPEG data that deflate would barely shrink, and storing keeps the writer tiny.
+// No ZIP64 support, so the archive and every entry must stay under 4 GB / 65535 entries.
+
+export interface ZipInput {
+  name: string; // Path inside the archive, '/'-separated
+  data: Blob | Uint8Array | string; // Strings are written as UTF-8
+  modified?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS date/time fields, local time with 2-second resolution
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const toBytes = async (data: ZipInput['data']): Promise<Uint8Array> => {
+  if (typeof data === 'string') return new TextEncoder().encode(data);
+  if (data instanceof Uint8Array) return data;
+  return new Uint8Array(await data.arrayBuffer());
+};
+
+const LOCAL_HEADER = 0x04034B50;
+const CENTRAL_HEADER = 0x02014B50;
+const END_OF_CENTRAL_DIR = 0x06054B50;
+const UTF8_FLAG = 0x0800;
+const VERSION = 20; // 2.0: the minimum for stored entries with directories
+
+export const createZip = async (inputs: ZipInput[]): Promise<Blob> => {
+  if (inputs.length > 0xFFFF) throw new Error(`ZIP supports at most 65535 entries, got ${inputs.length}`);
+
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const input of inputs) {
+    const name = encoder.encode(input.name);
+    const data = await toBytes(input.data);
+    const crc = crc32(data);
+    const { time, date } = dosDateTime(input.modified ?? new Date());
+    if (offset + 30 + name.length + data.length > 0xFFFFFFFF) throw new Error('ZIP archive exceeds 4 GB');
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, VERSION, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true); // Method: stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, CENTRAL_HEADER, true);
+    header.setUint16(4, VERSION, true);
+    header.setUint16(6, VERSION, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    // Extra, comment, disk number, internal and external attributes stay zero
+    header.setUint32(42, offset, true);
+
+    parts.push(local.buffer, name, data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIR, true);
+  end.setUint16(8, inputs.length, true);
+  end.setUint16(10, inputs.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
@@ -38,6 +38,9 @@ export interface GenerationOptions {
   aesthetic: Aesthetic;
   model: AIModel;
   customRatioValue?: number; // w / h
+  count?: number; // Images per prompt, 1-8 (defaults to 1)
+  negativePrompt?: string; // Elements to exclude from the output
+  seed?: number; // Fixed seed for reproducible results (random when unset)
 }
 
 export interface GeneratedImage {
@@ -47,12 +50,38 @@ export interface GeneratedImage {
   prompt: string;
   timestamp: number;
   cleanBase64?: string; // Stores the raw image without watermark for editing
+  resolution?: ImageResolution; // Resolution tier the output was delivered at
+  options?: GenerationOptions; // Settings the image was produced with (model, aesthetic, ratio, seed...)
+  regions?: EditRegion[]; // Regions changed by the edit that produced this image
+  adjustments?: AdjustmentOperation[]; // Ordered stack, always rendered from cleanBase64
+  renderedBase64?: string; // cleanBase64 with the stack applied, without watermark
+  // --- Lineage: how this particular image was produced ---
+  operation?: ImageOperation;
+  parentId?: string; // Image this one was derived from; absent for fresh generations
+  input?: InputImageRef; // Source image handed to the operation
+  selection?: SelectionBox; // Area the operation targeted: edit selection, crop box, or the parent's place in an outpainted frame
+  redactions?: SelectionBox[]; // Areas a redaction blurred, pixelated or blacked out
+  instruction?: string; // Edit instruction as sent; prompt keeps the original generation prompt
+  sentPrompt?: string; // Exact text sent to the model, after templating
+  latencyMs?: number; // Model round trip, including retries
 }
 
+export type ImageOperation = 'generate' | 'edit' | 'outpaint' | 'filter' | 'crop';
+
+export type InputImageRef =
+  | { kind: 'image'; id: string } // Another GeneratedImage (history or archive)
+  | { kind: 'upload'; hash: string }; // A user upload, identified by a SHA-256 prefix of its bytes
+
 export interface Preset {
   id: string;
   name: string;
   options: GenerationOptions;
+  lut?: PresetLut; // Look applied to every image generated while the preset is active
+}
+
+export interface PresetLut {
+  id: string;        // Key into the local LUT library
+  intensity: number; // 0-100
 }
 
 export interface SelectionBox {
@@ -62,11 +91,70 @@ export interface SelectionBox {
   h: number;
 }
 
-export interface ImageAdjustments {
-  brightness: number; // 0-200, default 100
-  contrast: number;   // 0-200, default 100
-  saturation: number; // 0-200, default 100
-  blur: number;       // 0-20, default 0
-  sepia: number;      // 0-100, default 0
-  grayscale: number;  // 0-100, default 0
+// A labelled bounding box returned by object detection
+export interface DetectedObject {
+  label: string;
+  box: SelectionBox;
+}
+
+// A numbered edit area with its own instruction
+export interface EditRegion {
+  id: number;
+  box: SelectionBox;
+  instruction: string;
+}
+
+// Outpaint growth per side, as a fraction of the original width (left/right) or height (top/bottom)
+export interface OutpaintExtents {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// Geometry applied before a crop: quarter turns, then a free angle, then flips
+export interface ImageTransform {
+  quarterTurns: number; // 0-3, clockwise
+  angle: number;        // Free rotation in degrees, -45 to 45
+  flipH: boolean;
+  flipV: boolean;
+  straighten: boolean;  // Trim the empty corners a free rotation leaves behind
+}
+
+export type CropHandle = 'move' | 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se';
+
+export type RedactMode = 'blur' | 'pixelate' | 'bar';
+
+// Control point on a tone curve, both axes 0-255
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+// Per-channel pixel counts, 256 bins each
+export interface ImageHistogram {
+  r: Uint32Array;
+  g: Uint32Array;
+  b: Uint32Array;
+  luma: Uint32Array;
+}
+
+// One step in an image's non-destructive adjustment stack
+export interface AdjustmentOperation {
+  id: string;
+  type: string;                   // Registered ImageEffect id
+  params: Record<string, number>;
+  enabled: boolean;
+  lutId?: string;                 // LUT library entry, for 'lut' operations
+}
+
+// A parsed .cube color lookup table
+export interface ColorLut {
+  id: string;
+  name: string;
+  dimension: 1 | 3;
+  size: number; // Entries per axis
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  table: Float32Array; // RGB triplets; in 3D tables red varies fastest, then green, then blue
 }